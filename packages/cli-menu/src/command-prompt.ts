@@ -1,13 +1,16 @@
-import { readdirSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import {
   Client,
   type CommandModule,
+  type CommandSource,
   type ResolveCommandFn,
   type ResolvedCommand,
+  fsCommandSource,
+  getCommandBadges,
+  importCommandModule,
   parseFileName,
-  passThroughCommand,
-  removeFileExtension,
+  parseGroupName,
+  readCommandEntries,
   resolveCommand,
 } from '@gud/cli';
 import cfonts from 'cfonts';
@@ -22,6 +25,12 @@ export interface CommandPromptOptions extends MenuOptions {
    */
   commandsDir: string;
 
+  /**
+   * The source to look up command modules in.
+   * @default fsCommandSource
+   */
+  source?: CommandSource;
+
   /**
    * The function to use to resolve the command.
    */
@@ -32,6 +41,12 @@ export interface CommandPromptOptions extends MenuOptions {
    */
   client?: Client;
 
+  /**
+   * Whether to include commands with an `experimental` stability.
+   * @default true
+   */
+  allowExperimental?: boolean;
+
   /**
    * The commands that have been selected so far.
    */
@@ -55,7 +70,9 @@ export async function commandPrompt(
     showDescriptions = true,
     maxDescriptionLength = Number.POSITIVE_INFINITY,
     commandsDir,
+    source = fsCommandSource,
     resolveFn = resolveCommand,
+    allowExperimental = true,
     selectionHistory = [],
     onCancel: onExit = process.exit,
   } = options;
@@ -68,45 +85,58 @@ export async function commandPrompt(
     });
   }
 
-  const commandDirItems = readdirSync(commandsDir);
-  const choicesByName = new Map<string, Choice>();
+  // Commands in route groups are listed as if they were in the directory
+  const commands = await Promise.all(
+    readCommandEntries(source, commandsDir).map(async ({ name, dir }) => {
+      const imported = await importCommandModule(source, join(dir, name)).catch(
+        () => undefined,
+      );
+      return {
+        commandName: name,
+        command: imported?.command,
+        origin: imported?.origin,
+      };
+    }),
+  );
+
+  // Skip files that only exist to provide an alias for another command, i.e.,
+  // ones that export the same command as a sibling that declares the alias.
+  const isAlias = (commandName: string, command: CommandModule | undefined) =>
+    commands.some(
+      (other) =>
+        other.commandName !== commandName &&
+        other.command === command &&
+        command?.aliases?.includes(commandName),
+    );
+
+  const choices: Choice[] = [];
+
+  for (const { commandName, command, origin } of commands) {
+    if (isAlias(commandName, command) || command?.hidden) continue;
+    if (!allowExperimental && command?.stability === 'experimental') continue;
+
+    const badges = command
+      ? getCommandBadges(command).map((badge) => colors.yellow(` [${badge}]`))
+      : [];
 
-  for (const filename of commandDirItems) {
-    const commandName = removeFileExtension(filename);
     let description: string | undefined;
 
     if (showDescriptions) {
-      const filepath = join(commandsDir, filename);
-      const { default: command }: { default: CommandModule } = await import(
-        filepath
-      ).catch(() => {
-        return {
-          ...passThroughCommand,
-          default: passThroughCommand,
-        };
-      });
-      description = command.description;
+      description = command?.description;
 
       if (description && description.length > maxDescriptionLength) {
         description = `${description.slice(0, maxDescriptionLength)}...`;
       }
     }
 
-    // Only add the choice if it hasn't been added yet or if the command has a
-    // description, which would indicate that the previous entry was a
-    // directory.
-    if (!choicesByName.has(commandName) || description) {
-      choicesByName.set(commandName, {
-        title: `${commandName}${
-          description ? colors.dim(` - ${description}`) : ''
-        }`,
-        value: filename,
-      });
-    }
+    choices.push({
+      title: `${commandName}${badges.join('')}${
+        description ? colors.dim(` - ${description}`) : ''
+      }${origin ? colors.dim(` (from ${origin})`) : ''}`,
+      value: commandName,
+    });
   }
 
-  const choices = [...choicesByName.values()];
-
   const backChoice = {
     title: colors.italic('↩ back'),
     value: 'command-menu-back',
@@ -115,59 +145,88 @@ export async function commandPrompt(
     choices.unshift(backChoice);
   }
 
-  const filename = await client.prompt({
+  const selectedName = await client.prompt({
     type: 'select',
     message,
     choices,
   });
 
-  if (!filename) {
+  if (!selectedName) {
     onExit();
     return selectionHistory;
   }
 
-  if (filename === backChoice.value) {
-    const lastCommand = selectionHistory.pop()!;
+  if (selectedName === backChoice.value) {
+    let lastCommand = selectionHistory.pop()!;
+
+    // Route groups are selected along with their command, so go back past them
+    while (
+      selectionHistory.length &&
+      parseGroupName(selectionHistory.at(-1)!.commandName)
+    ) {
+      lastCommand = selectionHistory.pop()!;
+    }
+
     return await commandPrompt({
       ...options,
       title: undefined,
-      commandsDir: dirname(lastCommand.commandPath),
+      commandsDir: dirname(lastCommand.subcommandsDir),
       selectionHistory,
     });
   }
 
   // Get param values for the command if it has any
-  const { paramName, spreadOperator } = parseFileName(filename);
-  let commandString = removeFileExtension(filename);
+  const { paramName, spreadOperator, optional } = parseFileName(selectedName);
+  let commandString = selectedName;
 
   if (paramName) {
     let commandStringWithValues = await client.prompt({
       type: spreadOperator ? 'list' : 'text',
-      message: spreadOperator
-        ? `Enter values for ${paramName}`
-        : `Enter a value for ${paramName}`,
-      initial: commandString,
+      message: `${
+        spreadOperator
+          ? `Enter values for ${paramName}`
+          : `Enter a value for ${paramName}`
+      }${optional ? ' (optional)' : ''}`,
+      initial: optional ? '' : commandString,
     });
 
-    if (!commandStringWithValues) {
-      onExit();
-      return selectionHistory;
+    if (Array.isArray(commandStringWithValues)) {
+      commandStringWithValues = commandStringWithValues.join(' ').trim();
     }
 
-    if (Array.isArray(commandStringWithValues)) {
-      commandStringWithValues = commandStringWithValues.join(' ');
+    // Optional params can be left empty, in which case they'll be resolved
+    // with zero tokens.
+    if (
+      commandStringWithValues === undefined ||
+      (!commandStringWithValues && !optional)
+    ) {
+      onExit();
+      return selectionHistory;
     }
 
     commandString = commandStringWithValues;
   }
 
-  const resolved = await resolveFn({
+  let resolved = await resolveFn({
     commandsDir,
     commandString,
   });
 
   selectionHistory.push(resolved);
 
+  // Route groups don't consume a token, so continue resolving the selected
+  // command from the group directory.
+  while (
+    parseGroupName(resolved.commandName) &&
+    resolved.remainingCommandString
+  ) {
+    resolved = await resolveFn({
+      commandsDir: resolved.subcommandsDir,
+      commandString: resolved.remainingCommandString,
+    });
+    selectionHistory.push(resolved);
+  }
+
   if (resolved.command.requiresSubcommand) {
     return await commandPrompt({
       ...options,
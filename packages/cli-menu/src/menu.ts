@@ -99,6 +99,8 @@ export function menu({
             maxDescriptionLength,
             client: context.client,
             commandsDir,
+            source: context.commandSource,
+            allowExperimental: context.allowExperimental,
             resolveFn: ({ commandString, commandsDir }) =>
               context.resolveCommand(commandString, commandsDir),
             onCancel: async () => {
@@ -127,6 +129,8 @@ export function menu({
               title,
               titleColors,
               commandsDir: lastResolved.subcommandsDir,
+              source: context.commandSource,
+              allowExperimental: context.allowExperimental,
               message,
               showDescriptions,
               maxDescriptionLength,
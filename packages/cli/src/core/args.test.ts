@@ -0,0 +1,133 @@
+import {
+  ArgsConfigError,
+  ArgsError,
+  type ArgsConfig,
+  parseArgs,
+} from 'src/core/args';
+import { Context } from 'src/core/context';
+import { getHelp } from 'src/core/help';
+import { run } from 'src/core/run';
+import { describe, expect, it, vi } from 'vitest';
+
+describe('args', () => {
+  const cpArgs: ArgsConfig = [
+    { name: 'src', required: true, description: 'The file to copy' },
+    { name: 'dest', required: true },
+    { name: 'mode', type: 'number', default: 644 },
+  ];
+
+  it('assigns tokens to args in order', () => {
+    expect(parseArgs(['a', 'b'], cpArgs)).toEqual({
+      src: 'a',
+      dest: 'b',
+      mode: 644,
+    });
+    expect(parseArgs(['a', 'b', '600'], cpArgs)).toEqual({
+      src: 'a',
+      dest: 'b',
+      mode: 600,
+    });
+    expect(
+      parseArgs(
+        ['1', '2', '3'],
+        [{ name: 'first' }, { name: 'rest', type: 'number', variadic: true }],
+      ),
+    ).toEqual({ first: '1', rest: [2, 3] });
+  });
+
+  it('validates the tokens', () => {
+    expect(() => parseArgs(['a'], cpArgs)).toThrowError(
+      'Missing required argument "dest"',
+    );
+    expect(() => parseArgs(['a', 'b', 'c'], cpArgs)).toThrowError(
+      'Invalid value for argument "mode": c',
+    );
+    expect(() => parseArgs(['a', 'b', '1', 'd'], cpArgs)).toThrowError(
+      'Unexpected argument "d"',
+    );
+    expect(() =>
+      parseArgs(['x'], [{ name: 'env', choices: ['dev', 'prod'] }]),
+    ).toThrowError(ArgsError);
+  });
+
+  it('validates the config', () => {
+    expect(() =>
+      parseArgs([], [{ name: 'files', variadic: true }, { name: 'dest' }]),
+    ).toThrowError(ArgsConfigError);
+    expect(() =>
+      parseArgs([], [{ name: 'src' }, { name: 'dest', required: true }]),
+    ).toThrowError(ArgsConfigError);
+  });
+
+  it('passes the args to the command state', async () => {
+    const handler = vi.fn();
+    const commands = {
+      cp: {
+        args: cpArgs,
+        options: { force: { type: 'boolean' as const } },
+        handler,
+      },
+    };
+
+    await run({ command: 'cp --force a b', commands });
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        args: { src: 'a', dest: 'b', mode: 644 },
+      }),
+    );
+
+    await expect(run({ command: 'cp a', commands })).rejects.toThrowError(
+      ArgsError,
+    );
+  });
+
+  it('parses args when a hook skips parsing the options', async () => {
+    let stateArgs: unknown;
+    const commands = {
+      cp: {
+        args: cpArgs,
+        handler: (state: { args: unknown }) => {
+          stateArgs = state.args;
+        },
+      },
+    };
+
+    await run({
+      command: 'cp a b 600',
+      commands,
+      hooks: { beforeParse: ({ skip }) => skip() },
+    });
+
+    expect(stateArgs).toEqual({ src: 'a', dest: 'b', mode: 600 });
+
+    await expect(
+      run({
+        command: 'cp a',
+        commands,
+        hooks: {
+          beforeParse: ({ setParsedOptionsAndSkip }) =>
+            setParsedOptionsAndSkip({}),
+        },
+      }),
+    ).rejects.toThrowError(ArgsError);
+  });
+
+  it('renders args in the usage line', async () => {
+    const context = new Context({
+      commandString: 'cp a b',
+      commandsDir: 'commands',
+      commands: { cp: { args: cpArgs, handler: () => {} } },
+    });
+    await context.prepare();
+
+    const { usage, arguments: argumentRows } = await getHelp({ context });
+
+    expect(usage).toContain('cp <src> <dest> [mode:number]');
+    expect(argumentRows).toEqual([
+      ['<src>', 'The file to copy'],
+      ['<dest>'],
+      ['[mode:number]', '(default: 644)'],
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+import { CliError, type CliErrorOptions, UsageError } from 'src/core/errors';
+import {
+  type ParamConfig,
+  coerceValue,
+  getParamTypeHint,
+} from 'src/core/params';
+import type { Tokens } from 'src/core/parse';
+
+// Types //
+
+/**
+ * The configuration for a positional argument of a command.
+ *
+ * @group Args
+ */
+export interface ArgConfig extends ParamConfig {
+  /**
+   * The name of the argument, used as its key in the arg values and displayed
+   * in the help menu.
+   */
+  name: string;
+
+  /**
+   * If `true`, the argument must be provided.
+   * @default false
+   */
+  required?: boolean;
+
+  /**
+   * If `true`, the argument receives all remaining tokens as an array. Only
+   * the last argument can be variadic.
+   * @default false
+   */
+  variadic?: boolean;
+
+  /**
+   * The value to use if the argument isn't provided.
+   */
+  default?: unknown;
+}
+
+/**
+ * An ordered list of positional arguments for a command.
+ *
+ * @example
+ * ```ts
+ * // commands/cp.ts
+ * export default command({
+ *   args: [
+ *     { name: 'src', required: true, description: 'The file to copy' },
+ *     { name: 'dest', required: true, description: 'Where to copy it' },
+ *   ],
+ *   handler: ({ args }) => copyFile(args.src, args.dest),
+ * });
+ * ```
+ *
+ * @group Args
+ */
+export type ArgsConfig = ArgConfig[];
+
+/**
+ * The coerced values of a command's positional arguments, keyed by name.
+ *
+ * @group Args
+ */
+export type ArgValues = Record<string, any>;
+
+// Errors //
+
+/**
+ * An error indicating the positional arguments of a command are invalid.
+ * @group Errors
+ */
+export class ArgsError extends UsageError {
+  constructor(error: unknown, options?: CliErrorOptions) {
+    super(error, {
+      name: 'ArgsError',
+      ...options,
+    });
+  }
+}
+
+/**
+ * An error indicating the args config of a command is invalid.
+ * @group Errors
+ */
+export class ArgsConfigError extends CliError {
+  constructor(message: string, options?: CliErrorOptions) {
+    super(message, {
+      name: 'ArgsConfigError',
+      ...options,
+    });
+  }
+}
+
+// Functions //
+
+/**
+ * @throws {ArgsConfigError} Throws an error if the args config is invalid.
+ * @group Args
+ */
+export function validateArgsConfig(config: ArgsConfig) {
+  let optionalName: string | undefined;
+
+  for (const [i, { name, required, variadic }] of config.entries()) {
+    if (variadic && i < config.length - 1) {
+      throw new ArgsConfigError(
+        `Argument "${name}" cannot be variadic because it isn't the last argument`,
+      );
+    }
+
+    if (required && optionalName) {
+      throw new ArgsConfigError(
+        `Argument "${name}" cannot be required because it follows the optional argument "${optionalName}"`,
+      );
+    }
+
+    if (!required) optionalName ??= name;
+  }
+}
+
+/**
+ * Validate tokens against a command's positional arguments config, assigning
+ * them to the arguments in order and coercing their values.
+ *
+ * @param tokens - The tokens left over after the command was resolved.
+ * @param config - The command's args config.
+ * @returns The arg values, keyed by name.
+ *
+ * @throws {ArgsError} If a required argument is missing, an argument has an
+ * invalid value, or there are more tokens than arguments.
+ * @throws {ArgsConfigError} If the args config is invalid.
+ *
+ * @group Args
+ */
+export function parseArgs(tokens: Tokens, config: ArgsConfig): ArgValues {
+  validateArgsConfig(config);
+
+  const values: ArgValues = {};
+  let i = 0;
+
+  for (const arg of config) {
+    const argTokens = arg.variadic ? tokens.slice(i) : tokens.slice(i, i + 1);
+    i += argTokens.length;
+
+    if (!argTokens.length) {
+      if (arg.required) {
+        throw new ArgsError(`Missing required argument "${arg.name}"`);
+      }
+      if (arg.default !== undefined) values[arg.name] = arg.default;
+      continue;
+    }
+
+    const coerced = argTokens.map((token) => coerceArgValue(arg, token));
+    const value = arg.variadic ? coerced : coerced[0];
+
+    const validation = arg.validate?.(value) ?? true;
+    if (validation !== true) {
+      throw new ArgsError(
+        formatInvalidArgMessage(
+          arg.name,
+          argTokens.join(' '),
+          typeof validation === 'string' ? validation : undefined,
+        ),
+      );
+    }
+
+    values[arg.name] = value;
+  }
+
+  if (i < tokens.length) {
+    throw new ArgsError(`Unexpected argument "${tokens[i]}"`);
+  }
+
+  return values;
+}
+
+/**
+ * Format a positional argument for usage strings, e.g., `<src>`,
+ * `[count:number]`, or `<files ...>`.
+ *
+ * @group Args
+ */
+export function formatArgUsage(arg: ArgConfig): string {
+  const typeHint = getParamTypeHint(arg);
+  return `${arg.required ? '<' : '['}${arg.name}${
+    typeHint ? `:${typeHint}` : ''
+  }${arg.variadic ? ' ...' : ''}${arg.required ? '>' : ']'}`;
+}
+
+// Internal //
+
+function coerceArgValue(arg: ArgConfig, value: string): unknown {
+  try {
+    return coerceValue(value, arg);
+  } catch (error) {
+    throw new ArgsError(
+      formatInvalidArgMessage(
+        arg.name,
+        value,
+        error instanceof Error ? error.message : String(error),
+      ),
+      { cause: error },
+    );
+  }
+}
+
+function formatInvalidArgMessage(
+  argName: string,
+  value: string,
+  details?: string,
+) {
+  return `Invalid value for argument "${argName}": ${value}${
+    details ? `\n\n${details}` : ''
+  }`;
+}
@@ -0,0 +1,149 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CommandConflictError,
+  createLayeredCommandSource,
+} from 'src/core/command-roots';
+import { createCommandTreeSource } from 'src/core/command-tree';
+import { Context } from 'src/core/context';
+import { getHelp } from 'src/core/help';
+import { type ResolvedCommand, resolveCommand } from 'src/core/resolve';
+import { run } from 'src/core/run';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+describe('command roots', () => {
+  it('merges the commands of each layer', async () => {
+    const fooCommand = { handler: () => {} };
+    const barCommand = { handler: () => {} };
+    const source = createLayeredCommandSource(
+      [
+        {
+          dir: 'core',
+          name: 'core',
+          source: createCommandTreeSource({ foo: fooCommand }, 'core'),
+        },
+        {
+          dir: 'team',
+          name: 'team',
+          source: createCommandTreeSource(
+            { foo: { bar: barCommand }, baz: {} },
+            'team',
+          ),
+        },
+      ],
+      'core',
+    );
+
+    expect(source.readDir('core')).toEqual(['foo', 'baz']);
+    expect(source.readDir('core/foo')).toEqual(['bar']);
+    expect(source.isDirectory('core/foo')).toBe(true);
+    expect(await source.importCommand('core/foo')).toEqual({
+      command: fooCommand,
+      commandPath: 'core/foo',
+      origin: 'core',
+    });
+    expect(await source.importCommand('core/foo/bar')).toEqual({
+      command: barCommand,
+      commandPath: 'team/foo/bar',
+      origin: 'team',
+    });
+
+    expect(
+      await resolveCommand({
+        commandString: 'bar',
+        commandsDir: 'core/foo',
+        source,
+      }),
+    ).toMatchObject({
+      command: barCommand,
+      commandPath: 'team/foo/bar',
+      origin: 'team',
+    } satisfies Partial<ResolvedCommand>);
+  });
+
+  it('throws on conflicts unless the later command overrides', async () => {
+    const coreCommand = { handler: () => {} };
+    const overrideCommand = { override: true, handler: () => {} };
+    const source = createLayeredCommandSource(
+      [
+        {
+          dir: 'core',
+          name: 'core',
+          source: createCommandTreeSource(
+            { foo: coreCommand, bar: coreCommand },
+            'core',
+          ),
+        },
+        {
+          dir: 'team',
+          name: 'team',
+          source: createCommandTreeSource(
+            { foo: { handler: () => {} }, bar: overrideCommand },
+            'team',
+          ),
+        },
+      ],
+      'core',
+    );
+
+    await expect(source.importCommand('core/foo')).rejects.toThrowError(
+      CommandConflictError,
+    );
+    await expect(source.importCommand('core/foo')).rejects.toThrowError(
+      /core\/foo \(core\)[\s\S]*team\/foo \(team\)/,
+    );
+    expect(await source.importCommand('core/bar')).toMatchObject({
+      command: overrideCommand,
+      origin: 'team',
+    });
+  });
+
+  describe('run', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'gud-cli-roots-'));
+      mkdirSync(join(tempDir, 'core'));
+      mkdirSync(join(tempDir, 'team'));
+      writeFileSync(
+        join(tempDir, 'core', 'build.mjs'),
+        'export default { description: "Build it", handler: ({ end }) => end("core") };',
+      );
+      writeFileSync(
+        join(tempDir, 'team', 'deploy.mjs'),
+        'export default { description: "Ship it", handler: ({ end }) => end("team") };',
+      );
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('resolves commands from each root', async () => {
+      const commandsDir = [
+        { dir: join(tempDir, 'core'), name: 'core' },
+        { dir: join(tempDir, 'team'), name: 'team' },
+      ];
+
+      expect(await run({ command: 'build', commandsDir })).toBe('core');
+      expect(await run({ command: 'deploy', commandsDir })).toBe('team');
+    });
+
+    it('shows the origin of each command in help', async () => {
+      const context = new Context({
+        commandString: '',
+        commandsDir: join(tempDir, 'core'),
+        roots: [
+          { dir: join(tempDir, 'core'), name: 'core' },
+          { dir: join(tempDir, 'team'), name: 'team' },
+        ],
+      });
+
+      const { helpText } = await getHelp({ context });
+
+      expect(helpText).toMatch(/build\s+Build it \(from core\)/);
+      expect(helpText).toMatch(/deploy\s+Ship it \(from team\)/);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { join, relative } from 'node:path';
+import type { CommandSource, ImportedCommand } from 'src/core/command-source';
+import { CliError, type CliErrorOptions } from 'src/core/errors';
+import type { CommandManifest } from 'src/core/manifest';
+
+// Types //
+
+/**
+ * A commands directory in a list of layered command roots.
+ * @group Resolve
+ */
+export interface CommandRoot {
+  /**
+   * The path to the commands directory.
+   */
+  dir: string;
+
+  /**
+   * A name for the root, e.g., the name of the package that provides it. It's
+   * used as the origin of the root's commands in help and command menus.
+   * @default dir
+   */
+  name?: string;
+
+  /**
+   * A precompiled manifest of the root, or a path to a manifest file. Set to
+   * `false` to always read the file system.
+   * @default `${dir}/commands.manifest.json` if it exists
+   */
+  manifest?: CommandManifest | string | false;
+}
+
+/**
+ * A command root with the {@linkcode CommandSource} used to look up its
+ * commands.
+ * @group Resolve
+ */
+export interface CommandSourceLayer {
+  /**
+   * The path to the layer's commands directory.
+   */
+  dir: string;
+
+  /**
+   * The origin of the layer's commands. Commands from layers without a name
+   * don't have an origin.
+   */
+  name?: string;
+
+  /**
+   * The source of the root's command modules.
+   */
+  source: CommandSource;
+}
+
+// Errors //
+
+/**
+ * An error indicating a command is defined in multiple command roots without
+ * the later definition opting in to override the earlier one.
+ * @group Errors
+ */
+export class CommandConflictError extends CliError {
+  constructor(
+    commandPath: string,
+    conflicts: ImportedCommand[],
+    options?: CliErrorOptions,
+  ) {
+    super(
+      `Command "${commandPath}" is defined in multiple command roots:\n${conflicts
+        .map(
+          ({ commandPath, origin }) =>
+            `  - ${commandPath}${origin ? ` (${origin})` : ''}`,
+        )
+        .join(
+          '\n',
+        )}\n\nSet \`override: true\` on the later command to override the earlier one.`,
+      {
+        name: 'CommandConflictError',
+        ...options,
+      },
+    );
+  }
+}
+
+// Functions //
+
+/**
+ * Create a {@linkcode CommandSource} that merges the commands of multiple
+ * layers into one tree. Paths passed to the source are resolved relative to
+ * `commandsDir` and looked up in each layer's directory.
+ *
+ * Later layers can add new commands and subcommands to existing directories,
+ * but can only replace a command from an earlier layer if the later command
+ * sets `override: true`.
+ *
+ * @param layers - The layers to merge, in order of precedence.
+ * @param commandsDir - The virtual path of the merged tree's root.
+ *
+ * @throws {CommandConflictError} When importing a command that's defined in
+ * multiple layers without an override.
+ *
+ * @group Resolve
+ */
+export function createLayeredCommandSource(
+  layers: CommandSourceLayer[],
+  commandsDir: string,
+): CommandSource {
+  function getLayerPaths(path: string) {
+    const relativePath = relative(commandsDir, path);
+    return layers.map((layer) => ({
+      layer,
+      path: join(layer.dir, relativePath),
+    }));
+  }
+
+  return {
+    readDir: (path) => {
+      const names = getLayerPaths(path).flatMap(({ layer, path }) =>
+        layer.source.readDir(path),
+      );
+      return Array.from(new Set(names));
+    },
+    isDirectory: (path) => {
+      return getLayerPaths(path).some(({ layer, path }) =>
+        layer.source.isDirectory(path),
+      );
+    },
+    importCommand: async (path) => {
+      let imported: ImportedCommand | undefined;
+
+      for (const { layer, path: layerPath } of getLayerPaths(path)) {
+        const layerImported = await layer.source.importCommand(layerPath);
+        if (!layerImported) continue;
+
+        const current = {
+          ...layerImported,
+          origin: layerImported.origin ?? layer.name,
+        };
+
+        if (imported && !current.command?.override) {
+          throw new CommandConflictError(relative(commandsDir, path), [
+            imported,
+            current,
+          ]);
+        }
+
+        imported = current;
+      }
+
+      return imported;
+    },
+    readAliases: (path) => {
+      // The aliases of every layer are included since the command that's
+      // imported is only known once the layers are imported.
+      const aliases: string[] = [];
+      for (const { layer, path: layerPath } of getLayerPaths(path)) {
+        const layerAliases = layer.source.readAliases?.(layerPath);
+        if (!layerAliases) return undefined;
+        aliases.push(...layerAliases);
+      }
+      return aliases;
+    },
+  };
+}
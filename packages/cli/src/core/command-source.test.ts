@@ -0,0 +1,58 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFsCommandSource } from 'src/core/command-source';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('command source', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'gud-cli-source-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('probes extensions in order of preference', async () => {
+    writeFileSync(
+      join(tempDir, 'foo.mjs'),
+      'export default { description: "mjs", handler() {} };',
+    );
+    writeFileSync(join(tempDir, 'foo.ts'), '');
+    writeFileSync(
+      join(tempDir, 'bar.cjs'),
+      'module.exports = { description: "cjs", handler() {} };',
+    );
+    const source = createFsCommandSource();
+
+    expect(source.readDir(tempDir).sort()).toEqual(['bar', 'foo']);
+    expect(await source.importCommand(join(tempDir, 'foo'))).toMatchObject({
+      command: { description: 'mjs' },
+      commandPath: join(tempDir, 'foo.mjs'),
+    });
+    expect(await source.importCommand(join(tempDir, 'bar'))).toMatchObject({
+      command: { description: 'cjs' },
+      commandPath: join(tempDir, 'bar.cjs'),
+    });
+    expect(await source.importCommand(join(tempDir, 'baz'))).toBeUndefined();
+  });
+
+  it('imports TypeScript modules with the transpile function', async () => {
+    writeFileSync(join(tempDir, 'foo.mjs'), '');
+    writeFileSync(join(tempDir, 'foo.ts'), '');
+    const command = { handler: () => {} };
+    const transpile = vi.fn(() => ({ default: command }));
+    const source = createFsCommandSource({
+      extensions: ['.ts', '.mjs'],
+      transpile,
+    });
+
+    expect(await source.importCommand(join(tempDir, 'foo'))).toEqual({
+      command,
+      commandPath: join(tempDir, 'foo.ts'),
+    });
+    expect(transpile).toHaveBeenCalledWith(join(tempDir, 'foo.ts'));
+  });
+});
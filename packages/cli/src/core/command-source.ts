@@ -0,0 +1,353 @@
+import { readdirSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import type { CommandModule } from 'src/core/command';
+import {
+  formatFileName,
+  parseGroupName,
+  removeFileExtension,
+} from 'src/utils/filename';
+import { isDirectory, isFile } from 'src/utils/fs';
+import type { MaybePromise } from 'src/utils/types';
+
+/**
+ * The name of the module in a route group directory, e.g., `(admin)`, that
+ * runs as middleware before the group's commands.
+ */
+export const GROUP_MIDDLEWARE_NAME = '_middleware';
+
+/**
+ * The name of the module in a command directory that runs when no other
+ * command in the directory matches the next token, e.g., `tools/_fallback.ts`
+ * for `tools unknown`.
+ */
+export const FALLBACK_COMMAND_NAME = '_fallback';
+
+/**
+ * The names of modules in a command directory that are used as the
+ * directory's own command, in order of preference, e.g., `deploy/index.ts`
+ * for the `deploy` command.
+ */
+export const DIRECTORY_COMMAND_NAMES = ['index', '_command'];
+
+/**
+ * The default file extensions of command modules, in order of preference.
+ */
+export const DEFAULT_COMMAND_EXTENSIONS = [
+  '.js',
+  '.mjs',
+  '.cjs',
+  '.ts',
+  '.mts',
+  '.cts',
+];
+
+// The extensions of modules that will be imported with the transpile function,
+// if provided.
+const TS_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+// Modules that belong to their directory and can't be called by name.
+const RESERVED_COMMAND_NAMES = [
+  ...DIRECTORY_COMMAND_NAMES,
+  GROUP_MIDDLEWARE_NAME,
+  FALLBACK_COMMAND_NAME,
+];
+
+// Types //
+
+/**
+ * A command module imported from a {@linkcode CommandSource}.
+ * @group Resolve
+ */
+export interface ImportedCommand {
+  /**
+   * The default export of the module, if any.
+   */
+  command: CommandModule | undefined;
+
+  /**
+   * The path to the imported module.
+   */
+  commandPath: string;
+
+  /**
+   * The name of the command root the module was imported from, if the source
+   * merges multiple roots.
+   */
+  origin?: string;
+}
+
+/**
+ * A source of command modules which can be walked like a directory tree.
+ *
+ * Command resolution, help generation, and command menus use a source to look
+ * up commands instead of reading the file system directly, allowing commands
+ * to be loaded from a precompiled manifest.
+ *
+ * @group Resolve
+ */
+export interface CommandSource {
+  /**
+   * Get the names of all commands and subcommand directories in a directory,
+   * without file extensions. Returns an empty array if the directory doesn't
+   * exist.
+   *
+   * @param path - The path to the directory.
+   */
+  readDir: (path: string) => string[];
+
+  /**
+   * Determine if a path is a directory of subcommands.
+   *
+   * @param path - The path to check.
+   */
+  isDirectory: (path: string) => boolean;
+
+  /**
+   * Import the command module at a path.
+   *
+   * @param path - The path to the command module without a file extension.
+   * @returns The imported command or `undefined` if no module exists at the
+   * path.
+   * @throws If the module exists but couldn't be imported.
+   */
+  importCommand: (path: string) => Promise<ImportedCommand | undefined>;
+
+  /**
+   * Get the aliases of the command module at a path without importing it,
+   * e.g., from precompiled metadata. Sources without the metadata can omit
+   * this, in which case commands are imported to read their aliases.
+   *
+   * @param path - The path to the command module without a file extension.
+   * @returns The command's aliases or `undefined` if they're unknown.
+   */
+  readAliases?: (path: string) => string[] | undefined;
+}
+
+/**
+ * A command in a directory, read with {@linkcode readCommandEntries}.
+ * @group Resolve
+ */
+export interface CommandEntry {
+  /**
+   * The name of the command without a file extension.
+   */
+  name: string;
+
+  /**
+   * The path to the directory containing the command. Differs from the
+   * directory that was read if the command is in a route group.
+   */
+  dir: string;
+}
+
+/**
+ * A function that imports a TypeScript command module, e.g., by transpiling it
+ * on the fly.
+ *
+ * @param path - The path to the TypeScript module.
+ * @returns The module's exports.
+ *
+ * @example
+ * ```ts
+ * import { tsImport } from 'tsx/esm/api';
+ *
+ * run({
+ *   commandsDir: 'src/commands',
+ *   transpile: (path) => tsImport(path, import.meta.url),
+ * });
+ * ```
+ *
+ * @group Resolve
+ */
+export type TranspileFn = (path: string) => MaybePromise<Record<string, any>>;
+
+/**
+ * Options for the {@linkcode createFsCommandSource} function.
+ * @group Resolve
+ */
+export interface FsCommandSourceOptions {
+  /**
+   * The file extensions to probe for command modules, in order of preference.
+   * @default DEFAULT_COMMAND_EXTENSIONS
+   */
+  extensions?: string[];
+
+  /**
+   * A function to import TypeScript command modules. If not provided,
+   * TypeScript modules are imported natively, which requires a runtime or
+   * loader that supports them.
+   */
+  transpile?: TranspileFn;
+}
+
+// Sources //
+
+/**
+ * Create a {@linkcode CommandSource} that reads command modules directly from
+ * the file system, probing each of the configured extensions.
+ *
+ * @group Resolve
+ */
+export function createFsCommandSource({
+  extensions = DEFAULT_COMMAND_EXTENSIONS,
+  transpile,
+}: FsCommandSourceOptions = {}): CommandSource {
+  return {
+    readDir: (path) => {
+      if (!isDirectory(path)) return [];
+      const names = readdirSync(path).map((fileName) =>
+        removeFileExtension(fileName),
+      );
+      return Array.from(new Set(names));
+    },
+
+    isDirectory,
+
+    importCommand: async (path) => {
+      // Use the first extension that exists on disk, falling back to the
+      // preferred extension so modules provided by loaders can still resolve.
+      const commandPath =
+        extensions
+          .map((extension) => formatFileName(path, extension))
+          .find((filePath) => isFile(filePath, [])) ??
+        formatFileName(path, extensions[0]);
+
+      try {
+        const { default: command } = await importModule(commandPath, transpile);
+        return { command, commandPath };
+      } catch (err) {
+        // If the file exists but couldn't be loaded for some other reason,
+        // forward the error to avoid masking module errors.
+        if (isFile(commandPath, [])) throw err;
+        return undefined;
+      }
+    },
+  };
+}
+
+/**
+ * A {@linkcode CommandSource} that reads command modules directly from the
+ * file system using the default extensions.
+ *
+ * @group Resolve
+ */
+export const fsCommandSource: CommandSource = createFsCommandSource();
+
+// Functions //
+
+/**
+ * Import the command module at a path, falling back to the directory's own
+ * command module, e.g., `deploy/index.ts`, if the path is a directory without
+ * a sibling command file.
+ *
+ * @param source - The source to import the command from.
+ * @param path - The path to the command module without a file extension.
+ * @returns The imported command or `undefined` if no module exists.
+ *
+ * @group Resolve
+ */
+export async function importCommandModule(
+  source: CommandSource,
+  path: string,
+): Promise<ImportedCommand | undefined> {
+  const imported = await source.importCommand(path);
+  if (imported || !source.isDirectory(path)) return imported;
+
+  for (const name of DIRECTORY_COMMAND_NAMES) {
+    const imported = await source.importCommand(join(path, name));
+    if (imported) return imported;
+  }
+}
+
+/**
+ * Get the aliases of the command module at a path from the source's metadata,
+ * including the directory's own command module, e.g., `deploy/index.ts`.
+ *
+ * @param source - The source to read the aliases from.
+ * @param path - The path to the command module without a file extension.
+ * @returns The command's aliases or `undefined` if the source doesn't know
+ * them and the command has to be imported to read them.
+ *
+ * @group Resolve
+ */
+export function readCommandAliases(
+  source: CommandSource,
+  path: string,
+): string[] | undefined {
+  if (!source.readAliases) return undefined;
+
+  const paths = [path];
+  if (source.isDirectory(path)) {
+    paths.push(...DIRECTORY_COMMAND_NAMES.map((name) => join(path, name)));
+  }
+
+  const aliases: string[] = [];
+  for (const commandPath of paths) {
+    const commandAliases = source.readAliases(commandPath);
+    if (!commandAliases) return undefined;
+    aliases.push(...commandAliases);
+  }
+  return aliases;
+}
+
+/**
+ * Import a module, using the transpile function for TypeScript modules if
+ * provided.
+ *
+ * @param path - The path to the module, including its file extension.
+ * @param transpile - The function to import TypeScript modules with.
+ * @returns The module's exports.
+ *
+ * @group Resolve
+ */
+export async function importModule(
+  path: string,
+  transpile?: TranspileFn,
+): Promise<Record<string, any>> {
+  if (transpile && TS_EXTENSIONS.includes(extname(path))) {
+    return transpile(path);
+  }
+  return import(path);
+}
+
+/**
+ * Determine if a name is reserved for a module that belongs to its directory,
+ * e.g., `index` or `_middleware`, and can't be called as a command.
+ *
+ * @group Resolve
+ */
+export function isReservedCommandName(name: string): boolean {
+  return RESERVED_COMMAND_NAMES.includes(name);
+}
+
+/**
+ * Get the commands in a directory, flattening route group directories, e.g.,
+ * `(admin)`, so their commands are listed as if they were in the directory
+ * itself. Modules with reserved names, e.g., `index` and `_middleware`, are
+ * excluded.
+ *
+ * @param source - The source to read the directory from.
+ * @param path - The path to the directory.
+ *
+ * @group Resolve
+ */
+export function readCommandEntries(
+  source: CommandSource,
+  path: string,
+): CommandEntry[] {
+  const entries: CommandEntry[] = [];
+
+  for (const name of source.readDir(path)) {
+    if (isReservedCommandName(name)) continue;
+
+    const groupDir = join(path, name);
+    if (parseGroupName(name) && source.isDirectory(groupDir)) {
+      entries.push(...readCommandEntries(source, groupDir));
+      continue;
+    }
+
+    entries.push({ name, dir: path });
+  }
+
+  return entries;
+}
@@ -0,0 +1,115 @@
+// Must be imported first
+import { unmockAllCommandModules } from 'src/utils/testing/command-modules';
+
+import { readdirSync, statSync } from 'node:fs';
+import {
+  type CommandTree,
+  createCommandTreeSource,
+} from 'src/core/command-tree';
+import { Context } from 'src/core/context';
+import { getHelp } from 'src/core/help';
+import { type ResolvedCommand, resolveCommand } from 'src/core/resolve';
+import { run } from 'src/core/run';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('command tree', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    unmockAllCommandModules();
+  });
+
+  it('walks the tree like a commands directory', async () => {
+    const fooCommand = { handler: () => {} };
+    const barCommand = { handler: () => {} };
+    const idCommand = { handler: () => {} };
+    const tree: CommandTree = {
+      foo: { ...fooCommand, subcommands: { bar: barCommand } },
+      group: { '[id]': idCommand },
+    };
+    const source = createCommandTreeSource(tree, 'commands');
+
+    expect(source.readDir('commands')).toEqual(['foo', 'group']);
+    expect(source.readDir('commands/foo')).toEqual(['bar']);
+    expect(source.readDir('commands/missing')).toEqual([]);
+    expect(source.isDirectory('commands/foo')).toBe(true);
+    expect(source.isDirectory('commands/group')).toBe(true);
+    expect(source.isDirectory('commands/foo/bar')).toBe(false);
+    expect(await source.importCommand('commands/group')).toBeUndefined();
+
+    expect(
+      await resolveCommand({
+        commandString: 'foo bar',
+        commandsDir: 'commands',
+        source,
+      }),
+    ).toMatchObject({
+      command: { handler: fooCommand.handler },
+      commandPath: 'commands/foo',
+      commandName: 'foo',
+      remainingCommandString: 'bar',
+      subcommandsDir: 'commands/foo',
+    } satisfies Partial<ResolvedCommand>);
+
+    expect(
+      await resolveCommand({
+        commandString: '123',
+        commandsDir: 'commands/group',
+        source,
+      }),
+    ).toMatchObject({
+      command: idCommand,
+      commandPath: 'commands/group/[id]',
+      params: { id: '123' },
+    } satisfies Partial<ResolvedCommand>);
+
+    expect(readdirSync).not.toHaveBeenCalled();
+    expect(statSync).not.toHaveBeenCalled();
+  });
+
+  it('is used by run() when provided', async () => {
+    const fooHandler = vi.fn(({ next }) => next());
+    const restHandler = vi.fn();
+
+    await run({
+      command: 'foo a b c',
+      commands: {
+        foo: {
+          handler: fooHandler,
+          subcommands: {
+            '[...rest]': { handler: restHandler },
+          },
+        },
+      },
+    });
+
+    expect(fooHandler).toHaveBeenCalled();
+    expect(restHandler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: { rest: ['a', 'b', 'c'] },
+      }),
+    );
+    expect(readdirSync).not.toHaveBeenCalled();
+  });
+
+  it('generates help from the tree', async () => {
+    const context = new Context({
+      commandString: 'foo',
+      commandsDir: 'commands',
+      commands: {
+        foo: {
+          description: 'hello from foo',
+          handler: () => {},
+          subcommands: {
+            bar: { handler: () => {} },
+          },
+        },
+      },
+    });
+    await context.prepare();
+
+    const { helpText } = await getHelp({ context });
+
+    expect(helpText).toContain('hello from foo');
+    expect(helpText).toContain('bar');
+  });
+});
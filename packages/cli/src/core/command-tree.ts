@@ -0,0 +1,106 @@
+import { relative, sep } from 'node:path';
+import type { CommandModule } from 'src/core/command';
+import type { CommandSource } from 'src/core/command-source';
+
+// Types //
+
+/**
+ * A command module in a {@linkcode CommandTree} with optional subcommands.
+ * @group Resolve
+ */
+export type CommandTreeModule = CommandModule<any, any, any> & {
+  /**
+   * The command's subcommands, equivalent to a directory next to a command
+   * file.
+   */
+  subcommands?: CommandTree;
+};
+
+/**
+ * An in-memory tree of command modules which can be used in place of a
+ * commands directory. Keys are command names, including param and spread
+ * names like `[id]` and `[...rest]`. Values are either command modules or
+ * nested trees, which are treated like directories without a command file.
+ *
+ * @example
+ * ```ts
+ * const commands: CommandTree = {
+ *   hello: helloCommand,
+ *   users: {
+ *     ...usersCommand,
+ *     subcommands: {
+ *       list: listUsersCommand,
+ *       '[id]': {
+ *         show: showUserCommand,
+ *       },
+ *     },
+ *   },
+ * };
+ * ```
+ *
+ * @group Resolve
+ */
+export interface CommandTree {
+  [name: string]: CommandTreeModule | CommandTree;
+}
+
+// Functions //
+
+/**
+ * Create a {@linkcode CommandSource} that looks up commands in an in-memory
+ * {@linkcode CommandTree}.
+ *
+ * @param tree - The tree of command modules.
+ * @param commandsDir - The virtual path of the tree's root. Paths passed to
+ * the source are resolved relative to it.
+ *
+ * @group Resolve
+ */
+export function createCommandTreeSource(
+  tree: CommandTree,
+  commandsDir: string,
+): CommandSource {
+  function getNode(path: string): TreeNode | undefined {
+    const segments = relative(commandsDir, path).split(sep).filter(Boolean);
+    let node: TreeNode = { subcommands: tree };
+
+    for (const segment of segments) {
+      const entry = node.subcommands?.[segment];
+      if (!entry) return undefined;
+      node = isCommandTreeModule(entry)
+        ? { command: entry, subcommands: entry.subcommands }
+        : { subcommands: entry };
+    }
+
+    return node;
+  }
+
+  return {
+    readDir: (path) => Object.keys(getNode(path)?.subcommands || {}),
+    isDirectory: (path) => !!getNode(path)?.subcommands,
+    importCommand: async (path) => {
+      const command = getNode(path)?.command;
+      if (!command) return undefined;
+      return { command, commandPath: path };
+    },
+    readAliases: (path) => getNode(path)?.command?.aliases || [],
+  };
+}
+
+/**
+ * Determine if an entry in a {@linkcode CommandTree} is a command module.
+ *
+ * @group Resolve
+ */
+export function isCommandTreeModule(
+  entry: CommandTreeModule | CommandTree,
+): entry is CommandTreeModule {
+  return typeof entry.handler === 'function';
+}
+
+// Internal //
+
+interface TreeNode {
+  command?: CommandTreeModule;
+  subcommands?: CommandTree;
+}
@@ -1,6 +1,11 @@
+import type { ArgsConfig } from 'src/core/args';
 import { UsageError } from 'src/core/errors';
-import type { OptionsConfig } from 'src/core/options/options';
+import type {
+  OptionGroupsConfig,
+  OptionsConfig,
+} from 'src/core/options/options';
 import { OptionsError } from 'src/core/options/validate-options';
+import type { ParamsConfig } from 'src/core/params';
 import type { State } from 'src/core/state';
 import type { MaybePromise } from 'src/utils/types';
 
@@ -34,6 +39,31 @@ export type CommandHandler<
   TReturn = unknown,
 > = (state: CommandState<TData, TOptions>) => MaybePromise<TReturn>;
 
+/**
+ * The stability of a command. Experimental commands are marked in help and
+ * command menus and can be disabled with the `allowExperimental` setting.
+ *
+ * @group Command
+ */
+export type CommandStability = 'stable' | 'experimental';
+
+/**
+ * Details about a deprecated command.
+ *
+ * @group Command
+ */
+export interface CommandDeprecation {
+  /**
+   * A message explaining the deprecation.
+   */
+  message?: string;
+
+  /**
+   * The command to use instead, e.g., `users list`.
+   */
+  replacement?: string;
+}
+
 /**
  * A command module that can be executed by the CLI engine.
  *
@@ -52,11 +82,81 @@ export interface CommandModule<
    */
   description?: string;
 
+  /**
+   * Alternative names the command can be called by. Aliases are matched after
+   * command files and directories but before param commands.
+   *
+   * @example
+   * ```ts
+   * // commands/list.ts
+   * export default command({
+   *   aliases: ['ls'],
+   *   handler: () => {},
+   * });
+   * ```
+   */
+  aliases?: string[];
+
+  /**
+   * If `true`, the command is omitted from help and command menus, but can
+   * still be called by name.
+   */
+  hidden?: boolean;
+
+  /**
+   * Marks the command as deprecated. A warning is printed when the command
+   * runs and it's marked in help and command menus. Can be a message or an
+   * object with a message and a replacement command.
+   *
+   * @example
+   * ```ts
+   * export default command({
+   *   deprecated: { message: 'Use the new API.', replacement: 'users list' },
+   *   handler: () => {},
+   * });
+   * ```
+   */
+  deprecated?: boolean | string | CommandDeprecation;
+
+  /**
+   * The stability of the command.
+   * @default 'stable'
+   */
+  stability?: CommandStability;
+
   /**
    * The options config for the command.
    */
   options?: TOptions;
 
+  /**
+   * Named groups of options that are listed under their own headings in help
+   * and can be constrained as a group, e.g., to require exactly one of
+   * `--file`, `--url`, or `--stdin`.
+   */
+  optionGroups?: OptionGroupsConfig<keyof TOptions & string>;
+
+  /**
+   * The config for the command's route params, e.g., the `id` in `[id].ts`.
+   * Param values are coerced and validated during resolution.
+   */
+  params?: ParamsConfig;
+
+  /**
+   * If `true`, the command replaces a command with the same path from an
+   * earlier command root instead of conflicting with it. Only used when
+   * `commandsDir` is a list of command roots.
+   */
+  override?: boolean;
+
+  /**
+   * An ordered list of positional arguments for the command, e.g., `src` and
+   * `dest` for `cp <src> <dest>`. A command with args consumes the rest of the
+   * command string instead of resolving subcommands. The tokens are validated
+   * against the list and the values are available as `args` on the state.
+   */
+  args?: ArgsConfig;
+
   /**
    * If `true`, the command will be executed before the next command in the
    * chain.
@@ -155,6 +255,54 @@ export function passThroughHandler(state: CommandState) {
  */
 export const passThroughCommand = command();
 
+/**
+ * Get the deprecation details of a command, if it's deprecated.
+ *
+ * @group Command
+ */
+export function getCommandDeprecation(
+  command: Pick<CommandModule<any, any, any>, 'deprecated'>,
+): CommandDeprecation | undefined {
+  const { deprecated } = command;
+  if (!deprecated) return;
+  if (deprecated === true) return {};
+  if (typeof deprecated === 'string') return { message: deprecated };
+  return deprecated;
+}
+
+/**
+ * Format the warning printed when a deprecated command runs.
+ *
+ * @param commandName - The name of the command.
+ * @param deprecation - The command's deprecation details.
+ *
+ * @group Command
+ */
+export function formatDeprecationWarning(
+  commandName: string,
+  { message, replacement }: CommandDeprecation,
+): string {
+  let warning = `Command "${commandName}" is deprecated.`;
+  if (message) warning += ` ${message}`;
+  if (replacement) warning += ` Use "${replacement}" instead.`;
+  return warning;
+}
+
+/**
+ * Get the badges to display next to a command in help and command menus,
+ * e.g., `deprecated` and `experimental`.
+ *
+ * @group Command
+ */
+export function getCommandBadges(
+  command: Pick<CommandModule<any, any, any>, 'deprecated' | 'stability'>,
+): string[] {
+  const badges: string[] = [];
+  if (command.deprecated) badges.push('deprecated');
+  if (command.stability === 'experimental') badges.push('experimental');
+  return badges;
+}
+
 /**
  * Validates a command string to ensure it does not start with an option or
  * contain a relative path.
@@ -1,19 +1,68 @@
+import { parseArgs } from 'src/core/args';
 import { Client } from 'src/core/client';
+import {
+  formatDeprecationWarning,
+  getCommandDeprecation,
+} from 'src/core/command';
+import {
+  type CommandSource,
+  type TranspileFn,
+  createFsCommandSource,
+} from 'src/core/command-source';
+import {
+  type CommandRoot,
+  createLayeredCommandSource,
+} from 'src/core/command-roots';
+import {
+  type CommandTree,
+  createCommandTreeSource,
+} from 'src/core/command-tree';
 import { CliError, type CliErrorOptions, UsageError } from 'src/core/errors';
+import type { ExternalCommandsOptions } from 'src/core/external';
 import { HookRegistry } from 'src/core/hooks';
-import type { OptionValues, OptionsConfig } from 'src/core/options/options';
+import {
+  type CommandManifest,
+  createManifestCommandSource,
+} from 'src/core/manifest';
+import {
+  type ConfigFile,
+  type ConfigFileOptions,
+  getConfigOptionValues,
+  loadConfigFile,
+} from 'src/core/options/config-file';
+import {
+  getEnvOptionValues,
+  getOptionEnvName,
+} from 'src/core/options/option-env';
+import {
+  type OptionSources,
+  getCliOptionSource,
+} from 'src/core/options/option-source';
+import {
+  type OptionGroupsConfig,
+  type OptionValues,
+  type OptionsConfig,
+  getOptionDisplayName,
+  getOptionKeys,
+} from 'src/core/options/options';
 import {
   type ValidateOptionsParams,
+  coerceOptionValue,
   validateOptions,
 } from 'src/core/options/validate-options';
 import { type ParseCommandFn, parseCommand } from 'src/core/parse';
-import type { Plugin, PluginInfo } from 'src/core/plugin';
+import {
+  type Plugin,
+  type PluginInfo,
+  createPluginCommandSource,
+} from 'src/core/plugin';
 import {
   type ResolveCommandFn,
   type ResolvedCommand,
   resolveCommand,
 } from 'src/core/resolve';
 import { State } from 'src/core/state';
+import { parseFileName, parseGroupName } from 'src/utils/filename';
 
 // Errors //
 
@@ -30,6 +79,23 @@ export class SubcommandRequiredError extends UsageError {
   }
 }
 
+/**
+ * An error indicating an experimental command was called while experimental
+ * commands are disabled.
+ * @group Errors
+ */
+export class ExperimentalCommandError extends UsageError {
+  constructor(commandName: string, options?: CliErrorOptions) {
+    super(
+      `Command "${commandName}" is experimental and experimental commands are disabled.`,
+      {
+        name: 'ExperimentalCommandError',
+        ...options,
+      },
+    );
+  }
+}
+
 // Classes + Class Types //
 
 /**
@@ -47,6 +113,71 @@ export interface ContextParams<TOptions extends OptionsConfig = OptionsConfig> {
    */
   commandsDir: string;
 
+  /**
+   * A precompiled manifest of the commands directory. If provided, commands
+   * will be looked up in the manifest instead of the file system.
+   */
+  manifest?: CommandManifest;
+
+  /**
+   * An in-memory tree of command modules. If provided, commands will be looked
+   * up in the tree instead of the file system and `commandsDir` is used as the
+   * virtual path of the tree's root.
+   */
+  commands?: CommandTree;
+
+  /**
+   * An ordered list of command roots to merge into one tree. If provided,
+   * `commandsDir` is used as the virtual path of the merged tree's root and
+   * paths are looked up in each root's directory.
+   */
+  roots?: (Omit<CommandRoot, 'manifest'> & { manifest?: CommandManifest })[];
+
+  /**
+   * Options for resolving external executables, e.g., `acme-foo`, as top-level
+   * commands when no command is found in the commands directory.
+   */
+  external?: ExternalCommandsOptions;
+
+  /**
+   * Whether commands with an `experimental` stability can be run. If `false`,
+   * they're also omitted from help and command menus.
+   * @default true
+   */
+  allowExperimental?: boolean;
+
+  /**
+   * A prefix to derive environment variable names from for options that
+   * don't name an `env` key, e.g., `MYCLI` to map `MYCLI_LOG_LEVEL` to
+   * `--log-level`.
+   */
+  envPrefix?: string;
+
+  /**
+   * A loaded config file to read option values from for options that aren't
+   * provided on the command line or by environment variables.
+   */
+  configFile?: ConfigFile;
+
+  /**
+   * Options for finding and loading a config file when the context is
+   * prepared, if a loaded `configFile` isn't provided.
+   */
+  configFileOptions?: ConfigFileOptions;
+
+  /**
+   * The file extensions to probe for command modules in the commands
+   * directory, in order of preference.
+   * @default DEFAULT_COMMAND_EXTENSIONS
+   */
+  extensions?: string[];
+
+  /**
+   * A function to import TypeScript command modules, e.g., by transpiling them
+   * on the fly. If not provided, TypeScript modules are imported natively.
+   */
+  transpile?: TranspileFn;
+
   /**
    * The client instance to use for logging and user interaction.
    * @default new Client()
@@ -136,6 +267,28 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
    */
   readonly commandsDir: string;
 
+  /**
+   * The source used to look up command modules, either the file system, a
+   * precompiled manifest, an in-memory command tree, or multiple layered
+   * command roots. Commands contributed by plugins are layered on top.
+   */
+  readonly commandSource: CommandSource;
+
+  /**
+   * Options for resolving external executables as top-level commands.
+   */
+  readonly external: ExternalCommandsOptions | undefined;
+
+  /**
+   * Whether commands with an `experimental` stability can be run.
+   */
+  readonly allowExperimental: boolean;
+
+  /**
+   * The prefix of environment variable names bound to options.
+   */
+  readonly envPrefix: string | undefined;
+
   /**
    * The client instance used for logging and user interaction.
    */
@@ -162,17 +315,30 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
   #isParsed = false;
   #parseFn: ParseCommandFn;
   #optionValues: OptionValues = {};
+  #optionSources: OptionSources = {};
 
   #isResolved = false;
   #resolveFn: ResolveCommandFn;
   #commandQueue: ResolvedCommand[] = [];
 
+  #configFile: ConfigFile | undefined;
+  #configFileOptions: ConfigFileOptions | undefined;
   #isReady = false;
   #result: unknown;
 
   constructor({
     commandString,
     commandsDir,
+    manifest,
+    commands,
+    roots,
+    external,
+    allowExperimental = true,
+    envPrefix,
+    configFile,
+    configFileOptions,
+    extensions,
+    transpile,
     hooks = new HookRegistry(),
     client = new Client(),
     plugins = [],
@@ -182,6 +348,47 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
   }: ContextParams<TOptions>) {
     this.commandString = commandString;
     this.commandsDir = commandsDir;
+    const commandSource = commands
+      ? createCommandTreeSource(commands, commandsDir)
+      : roots
+        ? createLayeredCommandSource(
+            roots.map(({ manifest, ...root }) => ({
+              ...root,
+              name: root.name ?? root.dir,
+              source: manifest
+                ? createManifestCommandSource(manifest, root.dir, transpile)
+                : createFsCommandSource({ extensions, transpile }),
+            })),
+            commandsDir,
+          )
+        : manifest
+          ? createManifestCommandSource(manifest, commandsDir, transpile)
+          : createFsCommandSource({ extensions, transpile });
+
+    // Layer the commands contributed by plugins on top of the commands dir.
+    const pluginLayers = plugins.flatMap(({ name, commands }) =>
+      commands
+        ? {
+            dir: commandsDir,
+            name,
+            source: createPluginCommandSource(commands, commandsDir, {
+              extensions,
+              transpile,
+            }),
+          }
+        : [],
+    );
+    this.commandSource = pluginLayers.length
+      ? createLayeredCommandSource(
+          [{ dir: commandsDir, source: commandSource }, ...pluginLayers],
+          commandsDir,
+        )
+      : commandSource;
+    this.external = external;
+    this.allowExperimental = allowExperimental;
+    this.envPrefix = envPrefix;
+    this.#configFile = configFile;
+    this.#configFileOptions = configFileOptions;
     this.client = client;
     this.hooks = hooks;
     this.plugins = Object.freeze(
@@ -218,6 +425,24 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
     return this.#options;
   }
 
+  /*
+   * The option groups of the resolved commands, keyed by group name.
+   */
+  get optionGroups() {
+    const optionGroups: OptionGroupsConfig = {};
+    for (const resolved of this.#commandQueue) {
+      Object.assign(optionGroups, resolved.command.optionGroups);
+    }
+    return optionGroups;
+  }
+
+  /*
+   * The config file option values are read from, once loaded.
+   */
+  get configFile() {
+    return this.#configFile;
+  }
+
   /*
    * A list of the resolved commands to be executed in order.
    */
@@ -232,6 +457,13 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
     return this.#optionValues;
   }
 
+  /*
+   * The sources of the parsed option values, keyed by option key.
+   */
+  get optionSources() {
+    return this.#optionSources;
+  }
+
   /*
    * The result of the most recent execution.
    */
@@ -266,8 +498,9 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
    * Prepare the context for execution.
    *
    * 1. Initialize plugins
-   * 2. Resolve the command string into a list of imported command modules
-   * 3. Parse the command string with the final options config from plugins and
+   * 2. Load the config file
+   * 3. Resolve the command string into a list of imported command modules
+   * 4. Parse the command string with the final options config from plugins and
    *    commands
    * 5. Mark the context as ready
    *
@@ -280,10 +513,15 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
       // 1. Initialize plugins
       await this.preparePlugins();
 
-      // 2. Resolve the command string into a list of imported command modules
+      // 2. Load the config file
+      if (!this.#configFile && this.#configFileOptions) {
+        this.#configFile = await loadConfigFile(this.#configFileOptions);
+      }
+
+      // 3. Resolve the command string into a list of imported command modules
       await this.#resolveWithHooks();
 
-      // 3. Parse the command string with the final options config from plugins
+      // 4. Parse the command string with the final options config from plugins
       //    and resolved commands
       await this.#parseWithHooks();
     } catch (error) {
@@ -346,6 +584,10 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
       commandString,
       commandsDir,
       parseFn: this.#parseFn,
+      source: this.commandSource,
+      // External commands are only resolved at the top level.
+      external: commandsDir === this.commandsDir ? this.external : undefined,
+      allowExperimental: this.allowExperimental,
     });
   };
 
@@ -378,6 +620,11 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
       validations: {
         conflicts: true,
         requires: true,
+        // Options that aren't declared are handed to commands that consume
+        // them, e.g., external and fallback commands.
+        unknown: !this.#commandQueue.some(
+          (resolved) => resolved.consumesOptions,
+        ),
       },
     };
 
@@ -447,6 +694,14 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
 
     // If the command wasn't skipped, begin execution
     if (!skipped) {
+      // Warn about deprecated commands before they run
+      for (const { command, commandName } of this.#commandQueue) {
+        const deprecation = getCommandDeprecation(command);
+        if (deprecation) {
+          this.client.warn(formatDeprecationWarning(commandName, deprecation));
+        }
+      }
+
       try {
         await state.start(initialData);
         result = state.data;
@@ -558,12 +813,29 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
     // Continue resolving until the last command is reached or the
     // `beforeResolveNext` hook skips
     while (pendingCommand) {
+      if (
+        !this.allowExperimental &&
+        pendingCommand.command.stability === 'experimental'
+      ) {
+        await this.throw(
+          new ExperimentalCommandError(pendingCommand.commandName),
+        );
+      }
+
       this.#commandQueue.push(pendingCommand);
       if (pendingCommand.command.options) {
         this.setOptions(pendingCommand.command.options);
       }
 
-      if (!pendingCommand.remainingCommandString) break;
+      // Stop at the end of the command string unless the command has an
+      // optional param subcommand (e.g., [[param]].ts) that matches zero
+      // tokens.
+      if (
+        !pendingCommand.remainingCommandString &&
+        !this.#hasOptionalParamSubcommand(pendingCommand)
+      ) {
+        break;
+      }
 
       await this.hooks.call('beforeResolveNext', {
         context: this,
@@ -611,6 +883,18 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
     this.#isResolved = true;
   }
 
+  /**
+   * Determine if a resolved command will continue to an optional param
+   * subcommand (e.g., [[param]].ts) when no tokens are left.
+   */
+  #hasOptionalParamSubcommand({ command, subcommandsDir }: ResolvedCommand) {
+    // Non-middleware commands are the final command when no tokens are left.
+    if (command.isMiddleware === false) return false;
+    return this.commandSource
+      .readDir(subcommandsDir)
+      .some((name) => parseFileName(name).optional);
+  }
+
   /**
    * Parse the command string with the final options config from plugins and
    * resolved commands, setting the context's `parsedOptions` property.
@@ -639,10 +923,118 @@ export class Context<TOptions extends OptionsConfig = OptionsConfig> {
     // Don't parse if the hook skipped
     if (!this.#isParsed) {
       const { options } = await this.parseCommand();
+      const sources: OptionSources = {};
+
+      for (const [key, config] of Object.entries(this.options)) {
+        if (options[key] !== undefined) {
+          sources[key] = getCliOptionSource(this.commandString, key, config);
+        }
+      }
+
+      // Fall back to environment variables for options that weren't provided
+      // on the command line. Only their variables are read, so invalid values
+      // for options set by flags are ignored.
+      try {
+        const unsetOptions = Object.fromEntries(
+          Object.entries(this.options).filter(
+            ([key]) => options[key] === undefined,
+          ),
+        );
+        const envValues = getEnvOptionValues(unsetOptions, {
+          prefix: this.envPrefix,
+        });
+        for (const key in envValues) {
+          options[key] = envValues[key];
+          sources[key] = {
+            type: 'env',
+            name: getOptionEnvName(key, this.options[key]!, this.envPrefix)!,
+          };
+        }
+      } catch (error) {
+        await this.throw(error);
+      }
+
+      // Then fall back to the config file, including the sections for each
+      // command in the chain.
+      if (this.configFile) {
+        const commandNames: string[] = [];
+        const commandPaths: string[] = [];
+        for (const { commandName } of this.#commandQueue) {
+          if (parseGroupName(commandName)) continue;
+          commandNames.push(commandName);
+          commandPaths.push(commandNames.join(' '));
+        }
+
+        try {
+          const configValues = getConfigOptionValues(
+            this.configFile,
+            commandPaths,
+            this.options,
+          );
+          for (const key in configValues) {
+            if (options[key] !== undefined) continue;
+            options[key] = configValues[key];
+            sources[key] = { type: 'config', path: this.configFile.path };
+          }
+        } catch (error) {
+          await this.throw(error);
+        }
+      }
+
+      // Run the values through the options' own coerce and validate
+      // functions.
+      for (const [key, config] of Object.entries(this.options)) {
+        if (options[key] === undefined) continue;
+        if (!config.coerce && !config.validate) continue;
+        try {
+          const value = coerceOptionValue({
+            value: options[key],
+            name: getOptionDisplayName(key, config),
+            config,
+            source: sources[key],
+          });
+          for (const optionKey of getOptionKeys(key, config)) {
+            if (optionKey in options) options[optionKey] = value;
+          }
+        } catch (error) {
+          await this.throw(error);
+        }
+      }
+
+      // Enforce the constraints of option groups with the values from every
+      // source.
+      try {
+        validateOptions({
+          values: options,
+          config: this.options,
+          groups: this.optionGroups,
+          validations: { groups: true },
+        });
+      } catch (error) {
+        await this.throw(error);
+      }
+
+      Object.assign(this.#optionSources, sources);
       this.setOptionValues(options);
+
       this.#isParsed = true;
     }
 
+    // Validate the tokens left over for commands with positional args, even if
+    // parsing the options was skipped by a hook.
+    for (const resolved of this.#commandQueue) {
+      if (!resolved.command.args) continue;
+      try {
+        const { tokens } = await this.#parseFn(
+          resolved.argsString || '',
+          this.options,
+        );
+        resolved.args = parseArgs(tokens, resolved.command.args);
+      } catch (error) {
+        await this.throw(error);
+      }
+    }
+
     await this.hooks.call('afterParse', {
       context: this,
       parsedOptions: this.#optionValues,
@@ -129,23 +129,44 @@ export class UsageError extends CliError {
   }
 }
 
+/**
+ * Options for the {@linkcode NotFoundError} constructor.
+ * @group Errors
+ */
+export interface NotFoundErrorOptions extends CliErrorOptions {
+  /**
+   * Names of similar commands to suggest to the user.
+   */
+  suggestions?: string[];
+}
+
 /**
  * An error indicating a command is not found.
  * @group Errors
  */
 export class NotFoundError extends UsageError {
-  constructor(token: string | number, path: string, options?: CliErrorOptions) {
+  /**
+   * Names of similar commands that were suggested to the user.
+   */
+  readonly suggestions: string[];
+
+  constructor(
+    token: string | number,
+    path: string,
+    { suggestions = [], ...options }: NotFoundErrorOptions = {},
+  ) {
     super(
-      ['development', 'test'].includes(process.env.NODE_ENV || '')
+      (['development', 'test'].includes(process.env.NODE_ENV || '')
         ? // In development, show the full path to the command
           `Unable to find command "${token}" in "${path.replace(/\/?$/, '/')}"`
         : // In production, just show the command name
-          `Command "${token}" not found.`,
+          `Command "${token}" not found.`) + formatSuggestions(suggestions),
       {
         name: 'NotFoundError',
         ...options,
       },
     );
+    this.suggestions = suggestions;
   }
 }
 
@@ -161,3 +182,16 @@ export class CommandRequiredError extends UsageError {
     });
   }
 }
+
+/**
+ * Format a list of suggestions as a "Did you mean" hint to append to an error
+ * message.
+ * @group Errors
+ */
+export function formatSuggestions(suggestions: string[]): string {
+  if (!suggestions.length) return '';
+  if (suggestions.length === 1) return `\n\nDid you mean "${suggestions[0]}"?`;
+  return `\n\nDid you mean one of these?\n${suggestions
+    .map((suggestion) => `  - ${suggestion}`)
+    .join('\n')}`;
+}
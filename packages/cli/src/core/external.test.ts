@@ -0,0 +1,134 @@
+import {
+  chmodSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Context } from 'src/core/context';
+import { NotFoundError } from 'src/core/errors';
+import {
+  EXTERNAL_OPTIONS_ENV_NAME,
+  findExternalCommand,
+  listExternalCommands,
+} from 'src/core/external';
+import { getHelp } from 'src/core/help';
+import { run } from 'src/core/run';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe.skipIf(process.platform === 'win32')('external commands', () => {
+  let tempDir: string;
+  let outFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'gud-cli-external-'));
+    outFile = join(tempDir, 'out.txt');
+    writeExecutable(
+      'acme-hello',
+      `echo "$@" > "${outFile}"\necho "$${EXTERNAL_OPTIONS_ENV_NAME}" >> "${outFile}"`,
+    );
+    writeExecutable('acme-fail', 'exit 3');
+    writeFileSync(join(tempDir, 'acme-noexec'), '');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function writeExecutable(name: string, script: string) {
+    const path = join(tempDir, name);
+    writeFileSync(path, `#!/bin/sh\n${script}\n`);
+    chmodSync(path, 0o755);
+  }
+
+  it('finds executables with the bin prefix', () => {
+    const external = { bin: 'acme', dirs: [tempDir] };
+
+    expect(findExternalCommand('hello', external)).toBe(
+      join(tempDir, 'acme-hello'),
+    );
+    expect(findExternalCommand('noexec', external)).toBeUndefined();
+    expect(listExternalCommands(external).sort()).toEqual(['fail', 'hello']);
+  });
+
+  it("doesn't find executables outside of the dirs", () => {
+    const external = { bin: 'acme', dirs: [tempDir] };
+    writeExecutable('secret', 'exit 0');
+
+    expect(findExternalCommand('x/../secret', external)).toBeUndefined();
+    expect(findExternalCommand('..', external)).toBeUndefined();
+  });
+
+  it('runs the executable with the remaining tokens and options', async () => {
+    await run({
+      command: 'hello world --loud',
+      commands: {},
+      options: { loud: { type: 'boolean' } },
+      external: { bin: 'acme', dirs: [tempDir] },
+    });
+
+    const [args, options] = readFileSync(outFile, 'utf8').trim().split('\n');
+    expect(args).toBe('world --loud');
+    expect(JSON.parse(options!)).toMatchObject({ loud: true });
+  });
+
+  it('passes unknown options to the executable', async () => {
+    await run({
+      command: 'hello --lou',
+      commands: {},
+      options: { loud: { type: 'boolean' } },
+      external: { bin: 'acme', dirs: [tempDir] },
+    });
+
+    const [args] = readFileSync(outFile, 'utf8').trim().split('\n');
+    expect(args).toBe('--lou');
+  });
+
+  it('forwards non-zero exit codes', async () => {
+    const exit = vi
+      .spyOn(process, 'exit')
+      .mockImplementation(() => undefined as never);
+
+    await run({
+      command: 'fail',
+      commands: {},
+      external: { bin: 'acme', dirs: [tempDir] },
+    });
+
+    expect(exit).toHaveBeenCalledWith(3);
+  });
+
+  it('suggests external commands when not found', async () => {
+    await expect(
+      run({
+        command: 'helo',
+        commands: {},
+        external: { bin: 'acme', dirs: [tempDir] },
+      }),
+    ).rejects.toThrowError(NotFoundError);
+    await expect(
+      run({
+        command: 'helo',
+        commands: {},
+        external: { bin: 'acme', dirs: [tempDir] },
+      }),
+    ).rejects.toThrowError(/Did you mean.*hello/s);
+  });
+
+  it('lists external commands in help', async () => {
+    const context = new Context({
+      commandString: '',
+      commandsDir: 'commands',
+      commands: { build: { handler: () => {} } },
+      external: { bin: 'acme', dirs: [tempDir] },
+    });
+
+    const { helpText } = await getHelp({ context });
+
+    expect(helpText).toContain('build');
+    expect(helpText).toMatch(/hello\s+\(from .*acme-hello\)/);
+  });
+});
@@ -0,0 +1,179 @@
+import { spawn } from 'node:child_process';
+import { accessSync, constants, readdirSync } from 'node:fs';
+import { basename, delimiter, join } from 'node:path';
+import type { CommandModule } from 'src/core/command';
+import { CliError, type CliErrorOptions } from 'src/core/errors';
+import { isFile } from 'src/utils/fs';
+
+/**
+ * The name of the environment variable external commands receive the parsed
+ * option values in, as JSON.
+ */
+export const EXTERNAL_OPTIONS_ENV_NAME = 'GUD_CLI_OPTIONS';
+
+// Types //
+
+/**
+ * Options for resolving external executables as commands, the way git resolves
+ * `git foo` to a `git-foo` executable.
+ * @group Resolve
+ */
+export interface ExternalCommandsOptions {
+  /**
+   * The prefix of external executables, usually the name of the CLI's bin,
+   * e.g., `acme` to resolve `acme foo` to an `acme-foo` executable.
+   */
+  bin: string;
+
+  /**
+   * The directories to search for external executables, in order of
+   * preference.
+   * @default The directories in the `PATH` environment variable.
+   */
+  dirs?: string[];
+}
+
+// Errors //
+
+/**
+ * An error indicating an external command couldn't be started.
+ * @group Errors
+ */
+export class ExternalCommandError extends CliError {
+  constructor(executablePath: string, options?: CliErrorOptions) {
+    super(`Unable to run external command "${executablePath}"`, {
+      name: 'ExternalCommandError',
+      ...options,
+    });
+  }
+}
+
+// Functions //
+
+/**
+ * Find the external executable for a command name, e.g., `acme-foo` for the
+ * `foo` command of the `acme` bin.
+ *
+ * @param commandName - The name of the command.
+ * @param options - The external commands options.
+ * @returns The path to the executable or `undefined` if none was found, or if
+ * the command name isn't a plain file name, e.g., `../foo`.
+ *
+ * @group Resolve
+ */
+export function findExternalCommand(
+  commandName: string,
+  options: ExternalCommandsOptions,
+): string | undefined {
+  const fileName = `${options.bin}-${commandName}`;
+
+  // Prevent command names from reaching executables outside of the dirs.
+  if (commandName.includes('..') || basename(fileName) !== fileName) return;
+
+  for (const dir of getExternalCommandDirs(options)) {
+    for (const ext of getExecutableExtensions()) {
+      const path = join(dir, `${fileName}${ext}`);
+      if (isExecutable(path)) return path;
+    }
+  }
+}
+
+/**
+ * Get the names of all external commands that can be found, without the bin
+ * prefix, e.g., `foo` for an `acme-foo` executable.
+ *
+ * @param options - The external commands options.
+ *
+ * @group Resolve
+ */
+export function listExternalCommands(
+  options: ExternalCommandsOptions,
+): string[] {
+  const prefix = `${options.bin}-`;
+  const extensions = getExecutableExtensions().filter(Boolean);
+  const names = new Set<string>();
+
+  for (const dir of getExternalCommandDirs(options)) {
+    let fileNames: string[];
+    try {
+      fileNames = readdirSync(dir);
+    } catch {
+      continue;
+    }
+
+    for (const fileName of fileNames) {
+      if (!fileName.startsWith(prefix)) continue;
+      if (!isExecutable(join(dir, fileName))) continue;
+
+      let name = fileName.slice(prefix.length);
+      const ext = extensions.find((ext) => name.toLowerCase().endsWith(ext));
+      if (ext) name = name.slice(0, -ext.length);
+      if (name) names.add(name);
+    }
+  }
+
+  return Array.from(names);
+}
+
+/**
+ * Create a command module that runs an external executable with the remaining
+ * tokens of the command string as arguments. The executable inherits the
+ * stdio of the process and receives the parsed option values as JSON in the
+ * {@linkcode EXTERNAL_OPTIONS_ENV_NAME} environment variable. A non-zero exit
+ * code is forwarded by exiting the context with it.
+ *
+ * @param executablePath - The path to the executable.
+ *
+ * @group Resolve
+ */
+export function createExternalCommand(executablePath: string): CommandModule {
+  return {
+    isMiddleware: false,
+    handler: async ({ command, context, end }) => {
+      const args = command?.commandTokens.slice(1) || [];
+
+      const exitCode = await new Promise<number>((resolve, reject) => {
+        const child = spawn(executablePath, args, {
+          stdio: 'inherit',
+          env: {
+            ...process.env,
+            [EXTERNAL_OPTIONS_ENV_NAME]: JSON.stringify(context.optionValues),
+          },
+        });
+        child.on('error', (error) => {
+          reject(new ExternalCommandError(executablePath, { cause: error }));
+        });
+        child.on('close', (code) => resolve(code ?? 1));
+      });
+
+      if (exitCode !== 0) await context.exit(exitCode);
+      return end(exitCode);
+    },
+  };
+}
+
+// Internal //
+
+function getExternalCommandDirs({ dirs }: ExternalCommandsOptions): string[] {
+  return dirs || (process.env.PATH || '').split(delimiter).filter(Boolean);
+}
+
+// Windows executables are found by the extensions in PATHEXT.
+function getExecutableExtensions(): string[] {
+  if (process.platform !== 'win32') return [''];
+  return [
+    '',
+    ...(process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').toLowerCase().split(';'),
+  ];
+}
+
+function isExecutable(path: string): boolean {
+  if (!isFile(path, [])) return false;
+  if (process.platform === 'win32') return true;
+  try {
+    accessSync(path, constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,6 +1,7 @@
 // Must be imported first
 import {
   mockCommandModule,
+  mockCommandModules,
   unmockAllCommandModules,
 } from 'src/utils/testing/command-modules';
 
@@ -65,4 +66,237 @@ describe('help', () => {
       helpText: expect.any(String),
     } as Help);
   });
+
+  it('lists aliases next to subcommands', async () => {
+    const listCommand = {
+      description: 'list things',
+      aliases: ['ls'],
+      handler: () => {},
+    };
+    mockCommandModules({
+      'commands/foo': { handler: () => {} },
+      'commands/foo/list': listCommand,
+      // A file that re-exports the command under its alias
+      'commands/foo/ls': listCommand,
+    });
+
+    const context = new Context({
+      commandString: 'foo',
+      commandsDir: 'commands',
+    });
+    await context.prepare();
+
+    const { subcommands } = await getHelp({ context });
+
+    expect(subcommands).toHaveLength(1);
+    expect(subcommands?.[0]?.[0]).toContain('list, ls');
+  });
+
+  it('lists spread param commands with typed params', async () => {
+    mockCommandModules({
+      'commands/foo': { handler: () => {} },
+      'commands/foo/[...ids]': {
+        description: 'get things by id',
+        params: { ids: { type: 'number' } },
+        handler: () => {},
+      },
+    });
+
+    const context = new Context({
+      commandString: 'foo',
+      commandsDir: 'commands',
+    });
+    await context.prepare();
+
+    const { subcommands } = await getHelp({ context });
+
+    expect(subcommands?.[0]?.[0]).toContain('[ids ...]');
+    expect(subcommands?.[0]?.[1]).toContain('get things by id');
+  });
+
+  it('lists commands named like the alias of another command', async () => {
+    mockCommandModules({
+      'commands/foo': { handler: () => {} },
+      'commands/foo/list': { aliases: ['ls'], handler: () => {} },
+      'commands/foo/ls': { description: 'a real command', handler: () => {} },
+    });
+
+    const context = new Context({
+      commandString: 'foo',
+      commandsDir: 'commands',
+    });
+    await context.prepare();
+
+    const { subcommands } = await getHelp({ context });
+
+    expect(subcommands).toHaveLength(2);
+    expect(subcommands?.[1]?.[0]).toContain('ls');
+  });
+
+  it('lists commands in route groups as subcommands', async () => {
+    const context = new Context({
+      commandString: 'tools',
+      commandsDir: 'commands',
+      commands: {
+        tools: {
+          handler: () => {},
+          subcommands: {
+            '(db)': {
+              _middleware: { handler: () => {} },
+              migrate: {
+                description: 'run migrations',
+                handler: () => {},
+              },
+              '(seeds)': {
+                seed: { handler: () => {} },
+              },
+            },
+          },
+        },
+      },
+    });
+    await context.prepare();
+
+    const { subcommands } = await getHelp({ context });
+
+    expect(subcommands?.map(([name]) => name.trim())).toEqual([
+      'migrate',
+      'seed',
+    ]);
+    expect(subcommands?.[0]?.[1]).toBe('run migrations');
+  });
+
+  it('hides hidden commands and shows badges', async () => {
+    const commands = {
+      deploy: {
+        description: 'deploy it',
+        deprecated: { replacement: 'ship' },
+        handler: () => {},
+      },
+      beta: {
+        description: 'try it',
+        stability: 'experimental' as const,
+        handler: () => {},
+      },
+      secret: { hidden: true, handler: () => {} },
+    };
+
+    let context = new Context({
+      commandString: '',
+      commandsDir: 'commands',
+      commands,
+    });
+    let { subcommands } = await getHelp({ context });
+
+    expect(subcommands?.map(([name]) => name.trim())).toEqual([
+      'beta',
+      'deploy',
+    ]);
+    expect(subcommands?.[0]?.[1]).toBe('[experimental] try it');
+    expect(subcommands?.[1]?.[1]).toBe('[deprecated] deploy it');
+
+    context = new Context({
+      commandString: '',
+      commandsDir: 'commands',
+      commands,
+      allowExperimental: false,
+    });
+    ({ subcommands } = await getHelp({ context }));
+
+    expect(subcommands?.map(([name]) => name.trim())).toEqual(['deploy']);
+
+    context = new Context({
+      commandString: 'deploy',
+      commandsDir: 'commands',
+      commands,
+    });
+    await context.prepare();
+    const { description } = await getHelp({ context });
+
+    expect(description).toBe(
+      '[deprecated] deploy it\nCommand "deploy" is deprecated. Use "ship" instead.',
+    );
+  });
+
+  it('shows negatable boolean options', async () => {
+    const context = new Context({
+      commandString: 'foo',
+      commandsDir: 'commands',
+      commands: {
+        foo: {
+          options: {
+            color: { type: 'boolean', default: true },
+            verbose: { type: 'boolean', alias: ['v'], negatable: 'quiet' },
+            force: { type: 'boolean' },
+          },
+          handler: () => {},
+        },
+      },
+    });
+    await context.prepare();
+
+    const { options } = await getHelp({ context });
+
+    expect(options).toEqual([
+      ['--[no-]color', ' (default: true)'],
+      ['-v, --quiet, --verbose'],
+      ['--force'],
+    ]);
+  });
+
+  it('formats array and record defaults', async () => {
+    const context = new Context({
+      commandString: 'build',
+      commandsDir: 'commands',
+      commands: {
+        build: {
+          options: {
+            tags: { type: 'array', default: ['a', 'b'] },
+            define: { type: 'record', default: { A: '1', B: '2,3' } },
+          },
+          handler: () => {},
+        },
+      },
+    });
+    await context.prepare();
+
+    const { options } = await getHelp({ context });
+
+    expect(options).toEqual([
+      ['--tags [string ...]', ' (default: a, b)'],
+      ['--define [key=value ...]', ' (default: A=1 B=2,3)'],
+    ]);
+  });
+
+  it('lists options under their group titles', async () => {
+    const context = new Context({
+      commandString: 'fetch --file data.json',
+      commandsDir: 'commands',
+      commands: {
+        fetch: {
+          options: {
+            file: { type: 'string' },
+            url: { type: 'string' },
+            force: { type: 'boolean' },
+          },
+          optionGroups: {
+            input: { options: ['file', 'url'], constraint: 'exactlyOne' },
+          },
+          handler: () => {},
+        },
+      },
+    });
+    await context.prepare();
+
+    const help = await getHelp({ context });
+
+    expect(help.options).toEqual([['--force']]);
+    expect(help.optionGroups).toEqual([
+      {
+        title: 'INPUT (exactly one):',
+        options: [['--file [string]'], ['--url [string]']],
+      },
+    ]);
+    expect(help.usage).toMatch(/<OPTIONS>$/);
+  });
 });
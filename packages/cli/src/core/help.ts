@@ -1,12 +1,27 @@
-import { readdirSync } from 'node:fs';
 import initCliui from 'cliui';
+import { formatArgUsage } from 'src/core/args';
+import {
+  type CommandModule,
+  formatDeprecationWarning,
+  getCommandBadges,
+  getCommandDeprecation,
+} from 'src/core/command';
+import { readCommandEntries } from 'src/core/command-source';
 import type { Context } from 'src/core/context';
-import type { OptionsConfig } from 'src/core/options/options';
+import { listExternalCommands } from 'src/core/external';
+import { getOptionEnvName } from 'src/core/options/option-env';
+import { getOptionTypeDefinition } from 'src/core/options/option-types';
+import {
+  type OptionGroupConfig,
+  type OptionGroupConstraint,
+  type OptionsConfig,
+  getOptionNegations,
+} from 'src/core/options/options';
+import { getParamTypeHint } from 'src/core/params';
 import type { ResolvedCommand } from 'src/core/resolve';
 import { getBin } from 'src/utils/argv';
 import { type Converted, convert } from 'src/utils/convert';
-import { parseFileName, removeFileExtension } from 'src/utils/filename';
-import { isDirectory } from 'src/utils/fs';
+import { parseFileName, parseGroupName } from 'src/utils/filename';
 
 // The base indent for all rows
 const BASE_INDENT = 2;
@@ -16,8 +31,11 @@ const BASE_INDENT = 2;
  * appearance, the rows are:
  * - description
  * - usage
+ * - argumentsTitle
+ * - arguments
  * - optionsTitle
  * - options
+ * - optionGroups
  * - subcommandsTitle
  * - subcommands
  *
@@ -34,16 +52,36 @@ export interface HelpRows {
    */
   usage: Column;
 
+  /**
+   * The title for the arguments section.
+   */
+  argumentsTitle?: Column;
+
+  /**
+   * A 2 column list of the route params and their descriptions.
+   */
+  arguments?: [Column, Column][];
+
   /**
    * The title for the options section.
    */
   optionsTitle?: Column;
 
   /**
-   * A 2 column list of the available options and their descriptions.
+   * A 2 column list of the available options that aren't in an option group
+   * and their descriptions.
    */
   options?: [Column, Column][];
 
+  /**
+   * The command's option groups, each with a title and a 2 column list of its
+   * options and their descriptions.
+   */
+  optionGroups?: {
+    title: Column;
+    options: [Column, Column][];
+  }[];
+
   /**
    * The title for the subcommands section.
    */
@@ -120,47 +158,148 @@ export async function getHelp({
   };
 
   const allOptions: OptionsConfig = { ...context.options };
+  const argumentRows: [Column, Column][] = [];
 
   // Build up the usage string based on the command queue
   for (const resolved of context.commandQueue) {
-    const { paramName, spreadOperator } = parseFileName(resolved.commandName);
+    const { paramName, spreadOperator, optional } = parseFileName(
+      resolved.commandName,
+    );
     if (paramName) {
-      rows.usage.text += ` <${paramName}${spreadOperator ? ' ...' : ''}>`;
-    } else {
+      const paramConfig = resolved.command.params?.[paramName];
+      const typeHint = getParamTypeHint(paramConfig);
+      const paramString = `${optional ? '[' : '<'}${paramName}${
+        typeHint ? `:${typeHint}` : ''
+      }${spreadOperator ? ' ...' : ''}${optional ? ']' : '>'}`;
+      rows.usage.text += ` ${paramString}`;
+      argumentRows.push([
+        {
+          text: paramString,
+          padding: [0, 0, 0, BASE_INDENT],
+        },
+        {
+          text: paramConfig?.description || '',
+          padding: [0, 0, 0, 3],
+        },
+      ]);
+    } else if (!parseGroupName(resolved.commandName)) {
+      // Route groups don't consume a token so they're left out of the usage
       rows.usage.text += ` ${resolved.commandName}`;
     }
+
+    // Add the command's positional args
+    for (const arg of resolved.command.args || []) {
+      const argString = formatArgUsage(arg);
+      rows.usage.text += ` ${argString}`;
+      argumentRows.push([
+        {
+          text: argString,
+          padding: [0, 0, 0, BASE_INDENT],
+        },
+        {
+          text: `${arg.description || ''}${
+            arg.default !== undefined ? ` (default: ${arg.default})` : ''
+          }`.trim(),
+          padding: [0, 0, 0, 3],
+        },
+      ]);
+    }
+
     Object.assign(allOptions, resolved?.command.options);
   }
 
   // Get the last resolved command
   const finalCommand = context.commandQueue[context.commandQueue.length - 1];
 
-  // Add description row
-  if (finalCommand?.command.description) {
-    rows.description = {
-      text: finalCommand?.command.description,
+  // Add description row with badges and deprecation details
+  if (finalCommand) {
+    const { command, commandName } = finalCommand;
+    const deprecation = getCommandDeprecation(command);
+    const text = [
+      [formatBadges(command), command.description].filter(Boolean).join(' '),
+      deprecation && formatDeprecationWarning(commandName, deprecation),
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    if (text) {
+      rows.description = {
+        text,
+        padding: [1, 0, 0, 0],
+      };
+    }
+  }
+
+  // Add argument rows
+  if (argumentRows.length) {
+    const firstColWidth = Math.min(
+      Math.max(...argumentRows.map(([{ text }]) => text.length + BASE_INDENT)),
+      maxWidth / 2,
+    );
+    for (const [firstCol] of argumentRows) {
+      firstCol.width = firstColWidth;
+    }
+    rows.argumentsTitle = {
+      text: 'ARGUMENTS:',
       padding: [1, 0, 0, 0],
     };
+    rows.arguments = argumentRows;
   }
 
   // Add option rows
   let hasRequiredOptions = false;
-  if (Object.keys(allOptions).length) {
-    const result = await optionRows({
+  const optionNames = Object.keys(allOptions);
+  if (optionNames.length) {
+    const result = optionRows({
       options: allOptions,
+      envPrefix: context.envPrefix,
       maxWidth: maxWidth / 2,
     });
-    rows.optionsTitle = {
-      text: 'OPTIONS:',
-      padding: [1, 0, 0, 0],
-    };
-    rows.options = result.rows;
     hasRequiredOptions = result.hasRequiredOptions;
+
+    // List the options in each group under the group's title and the rest
+    // under the default title.
+    const groupedNames = new Set<string>();
+    rows.optionGroups = [];
+    for (const [name, group] of Object.entries(context.optionGroups)) {
+      const groupRows = result.rows.filter((_, i) =>
+        group.options.includes(optionNames[i]!),
+      );
+      if (!groupRows.length) continue;
+
+      for (const optionName of group.options) groupedNames.add(optionName);
+      if (
+        group.constraint === 'exactlyOne' ||
+        group.constraint === 'atLeastOne'
+      ) {
+        hasRequiredOptions = true;
+      }
+
+      rows.optionGroups.push({
+        title: {
+          text: formatOptionGroupTitle(name, group),
+          padding: [1, 0, 0, 0],
+        },
+        options: groupRows,
+      });
+    }
+
+    const ungroupedRows = result.rows.filter(
+      (_, i) => !groupedNames.has(optionNames[i]!),
+    );
+    if (ungroupedRows.length) {
+      rows.optionsTitle = {
+        text: 'OPTIONS:',
+        padding: [1, 0, 0, 0],
+      };
+      rows.options = ungroupedRows;
+    }
+    if (!rows.optionGroups.length) delete rows.optionGroups;
   }
 
   // Add subcommand rows
   const subcommandsDir = finalCommand?.subcommandsDir || context.commandsDir;
-  const hasSubcommands = isDirectory(subcommandsDir);
+  const hasSubcommands = context.commandSource.isDirectory(subcommandsDir);
   if (hasSubcommands) {
     Object.assign(
       rows,
@@ -193,6 +332,13 @@ export async function getHelp({
   }
   cliui.div(rows.usage);
 
+  if (rows.argumentsTitle && rows.arguments) {
+    cliui.div(rows.argumentsTitle);
+    for (const cols of rows.arguments) {
+      cliui.div(...cols);
+    }
+  }
+
   if (rows.optionsTitle && rows.options) {
     cliui.div(rows.optionsTitle);
     for (const cols of rows.options) {
@@ -200,6 +346,13 @@ export async function getHelp({
     }
   }
 
+  for (const group of rows.optionGroups || []) {
+    cliui.div(group.title);
+    for (const cols of group.options) {
+      cliui.div(...cols);
+    }
+  }
+
   if (rows.subcommandsTitle) cliui.div(rows.subcommandsTitle);
 
   if (rows.subcommands) {
@@ -236,12 +389,27 @@ export async function getHelp({
   };
 }
 
+// Format the heading for an option group, e.g., `INPUT (exactly one):`.
+function formatOptionGroupTitle(name: string, group: OptionGroupConfig) {
+  const title = (group.title || name).toUpperCase();
+  if (!group.constraint) return `${title}:`;
+  return `${title} (${constraintLabels[group.constraint]}):`;
+}
+
+const constraintLabels: Record<OptionGroupConstraint, string> = {
+  exactlyOne: 'exactly one',
+  atLeastOne: 'at least one',
+  atMostOne: 'at most one',
+  allOrNone: 'all or none',
+};
+
 interface OptionRowsOptions {
   options: OptionsConfig;
+  envPrefix?: string;
   maxWidth?: number;
 }
 
-function optionRows({ options, maxWidth = 40 }: OptionRowsOptions): {
+function optionRows({ options, envPrefix, maxWidth = 40 }: OptionRowsOptions): {
   rows: [Column, Column][];
   hasRequiredOptions: boolean;
 } {
@@ -253,20 +421,34 @@ function optionRows({ options, maxWidth = 40 }: OptionRowsOptions): {
       const singleLetterKeys = new Set<string>();
       const wordKeys = new Set<string>();
 
+      // Show the `--no-` prefix for negatable booleans that default to `true`
+      // or opt in to showing it.
+      const negations = getOptionNegations(optionName, option);
+      const wordPrefix =
+        negations.length &&
+        (option.negatable === true ||
+          (option.negatable === undefined && option.default === true))
+          ? '--[no-]'
+          : '--';
+
       if (optionName.length === 1) {
         singleLetterKeys.add(`-${optionName}`);
       } else {
-        wordKeys.add(`--${optionName}`);
+        wordKeys.add(`${wordPrefix}${optionName}`);
       }
 
       for (const alias of option.alias || []) {
         if (alias.length === 1) {
           singleLetterKeys.add(`-${alias}`);
         } else {
-          wordKeys.add(`--${alias}`);
+          wordKeys.add(`${wordPrefix}${alias}`);
         }
       }
 
+      if (typeof option.negatable === 'string' && negations.length) {
+        wordKeys.add(`--${option.negatable}`);
+      }
+
       const sortedSingleLetterKeys = Array.from(singleLetterKeys).sort();
       const sortedWordKeys = Array.from(wordKeys).sort();
 
@@ -275,16 +457,26 @@ function optionRows({ options, maxWidth = 40 }: OptionRowsOptions): {
       );
 
       let optionValue: string | undefined;
+      const definition = getOptionTypeDefinition(option);
 
-      switch (option.type) {
-        case 'string':
-          optionValue = 'string';
-          break;
-        case 'number':
-          optionValue = 'number';
-          break;
-        case 'array':
-          optionValue = 'string ...';
+      if (definition) {
+        optionValue = definition.label || option.customType;
+        if (option.type === 'array') optionValue += ' ...';
+        if (option.type === 'record') optionValue = `key=${optionValue} ...`;
+      } else {
+        switch (option.type) {
+          case 'string':
+            optionValue = 'string';
+            break;
+          case 'number':
+            optionValue = 'number';
+            break;
+          case 'array':
+            optionValue = 'string ...';
+            break;
+          case 'record':
+            optionValue = 'key=value ...';
+        }
       }
 
       const isRequired = !!option.required && !option.default;
@@ -305,11 +497,16 @@ function optionRows({ options, maxWidth = 40 }: OptionRowsOptions): {
         description += ` (choices: ${option.choices.join(', ')})`;
       }
 
+      const envName = getOptionEnvName(optionName, option, envPrefix);
+      if (envName) {
+        description += ` (env: ${envName})`;
+      }
+
       if (option.default !== undefined) {
         if (option.type === 'secret') {
           description += ' (default: *****)';
         } else {
-          description += ` (default: ${option.default})`;
+          description += ` (default: ${formatDefault(option.default)})`;
         }
       }
 
@@ -339,6 +536,18 @@ function optionRows({ options, maxWidth = 40 }: OptionRowsOptions): {
   };
 }
 
+// Format an option's default, e.g., `a, b` for arrays and `A=1 B=2` for
+// records.
+function formatDefault(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value)
+      .map(([key, v]) => `${key}=${v}`)
+      .join(' ');
+  }
+  return String(value);
+}
+
 interface CommandRowsOptions {
   command: ResolvedCommand | undefined;
   commandsDir: string;
@@ -361,57 +570,110 @@ async function commandRows({
   };
 
   const subcommandsDir = command?.subcommandsDir || commandsDir;
-  const subcommandFileNames = readdirSync(subcommandsDir);
-  const subcommandNames = Array.from(
-    // remove file extensions, duplicates, and 'index'
-    new Set<string>(
-      subcommandFileNames
-        .map((commandName) => {
-          const { paramName, spreadOperator } = parseFileName(commandName);
-          if (paramName) {
-            return `[${paramName}${spreadOperator ? ' ...' : ''}]`;
-          }
-          return removeFileExtension(commandName);
-        })
-        .filter((name) => name !== 'index')
-        // Sort by alphabetical order, but put param commands at the end
-        .sort((a, b) => {
-          if (a.startsWith('[') && !b.startsWith('[')) {
-            return 1;
-          }
-          if (!a.startsWith('[') && b.startsWith('[')) {
-            return -1;
-          }
-          return a.localeCompare(b);
-        }),
-    ),
-  );
+  // The entries are keyed by display name, e.g., `[ids ...]`, and resolved by
+  // their file name so params aren't coerced from the display name.
+  const subcommandEntries = new Map<
+    string,
+    { fileName: string; dir: string }
+  >();
+
+  // Commands in route groups are listed as if they were in the directory
+  for (const { name: commandName, dir } of readCommandEntries(
+    context.commandSource,
+    subcommandsDir,
+  )) {
+    let name = commandName;
+    const { paramName, spreadOperator, optional } = parseFileName(commandName);
+    if (paramName) {
+      const paramString = `${paramName}${spreadOperator ? ' ...' : ''}`;
+      name = optional ? `[[${paramString}]]` : `[${paramString}]`;
+    }
+
+    // remove duplicates
+    if (subcommandEntries.has(name)) continue;
+    subcommandEntries.set(name, { fileName: commandName, dir });
+  }
+
+  // External commands are only resolved at the top level
+  if (context.external && subcommandsDir === context.commandsDir) {
+    for (const name of listExternalCommands(context.external)) {
+      if (subcommandEntries.has(name)) continue;
+      subcommandEntries.set(name, { fileName: name, dir: subcommandsDir });
+    }
+  }
+
+  const subcommandNames = Array.from(subcommandEntries.keys())
+    // Sort by alphabetical order, but put param commands at the end
+    .sort((a, b) => {
+      if (a.startsWith('[') && !b.startsWith('[')) {
+        return 1;
+      }
+      if (!a.startsWith('[') && b.startsWith('[')) {
+        return -1;
+      }
+      return a.localeCompare(b);
+    });
   if (subcommandNames.length === 0) {
     return {};
   }
   const firstColWidths = new Set<number>();
 
-  // Create cliui columns for each subcommand
-  rows.subcommands = await Promise.all(
-    subcommandNames.map(async (subcommand) => {
-      const {
-        command: { description },
-      } = await context.resolveCommand(subcommand, subcommandsDir);
+  const subcommands = await Promise.all(
+    subcommandNames.map(async (name) => {
+      const { fileName, dir } = subcommandEntries.get(name)!;
+      const { command, origin } = await context.resolveCommand(fileName, dir);
+      return { name, command, origin };
+    }),
+  );
+
+  // Skip files that only exist to provide an alias for another command, i.e.,
+  // ones that export the same command as a sibling that declares the alias.
+  const isAlias = (name: string, command: CommandModule) =>
+    subcommands.some(
+      (other) =>
+        other.name !== name &&
+        other.command === command &&
+        command.aliases?.includes(name),
+    );
+
+  // Create cliui columns for each visible subcommand
+  rows.subcommands = subcommands
+    .filter(
+      ({ name, command }) =>
+        !isAlias(name, command) &&
+        !command.hidden &&
+        (context.allowExperimental || command.stability !== 'experimental'),
+    )
+    .map(({ name, command, origin }) => {
+      const { aliases = [] } = command;
+      const text = [name, ...aliases].join(', ');
+      let description = [formatBadges(command), command.description]
+        .filter(Boolean)
+        .join(' ');
+
+      // Show where the command came from when merging multiple command roots
+      if (origin) {
+        description = [description, `(from ${origin})`]
+          .filter(Boolean)
+          .join(' ');
+      }
 
-      firstColWidths.add(subcommand.length + BASE_INDENT);
+      firstColWidths.add(text.length + BASE_INDENT);
 
       return [
         {
-          text: subcommand,
+          text,
           padding: [0, 0, 0, BASE_INDENT],
         },
         {
-          text: description || '',
+          text: description,
           padding: [0, 0, 0, 3],
         },
       ];
-    }),
-  );
+    });
+  if (!rows.subcommands.length) {
+    return {};
+  }
 
   const firstColWidth = Math.min(Math.max(...firstColWidths), maxWidth);
 
@@ -430,3 +692,9 @@ type Column = {
   padding: number[];
   border?: boolean;
 };
+
+function formatBadges(command: CommandModule): string {
+  return getCommandBadges(command)
+    .map((badge) => `[${badge}]`)
+    .join(' ');
+}
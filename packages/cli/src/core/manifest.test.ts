@@ -0,0 +1,205 @@
+// Must be imported first
+import {
+  mockCommandModules,
+  unmockAllCommandModules,
+} from 'src/utils/testing/command-modules';
+
+import {
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  COMMAND_MANIFEST_FILE_NAME,
+  COMMAND_MANIFEST_VERSION,
+  type CommandManifest,
+  createManifestCommandSource,
+  generateCommandManifest,
+  readCommandManifest,
+  writeCommandManifest,
+} from 'src/core/manifest';
+import { type ResolvedCommand, resolveCommand } from 'src/core/resolve';
+import { run } from 'src/core/run';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const manifest: CommandManifest = {
+  version: COMMAND_MANIFEST_VERSION,
+  routes: {
+    '': { name: '', subcommands: ['foo', '[id]'] },
+    foo: { name: 'foo', modulePath: 'foo.js', subcommands: ['bar'] },
+    'foo/bar': { name: 'bar', modulePath: 'foo/bar.js' },
+    '[id]': { name: '[id]', modulePath: '[id].js' },
+  },
+};
+
+describe('manifest', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    unmockAllCommandModules();
+    tempDir = mkdtempSync(join(tmpdir(), 'gud-cli-manifest-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('generates a manifest from a commands directory', async () => {
+    mkdirSync(join(tempDir, 'foo'));
+    mkdirSync(join(tempDir, 'baz'));
+    writeFileSync(join(tempDir, 'foo.js'), '');
+    writeFileSync(join(tempDir, 'foo.ts'), '');
+    writeFileSync(join(tempDir, 'foo.d.ts'), '');
+    writeFileSync(join(tempDir, 'README.md'), '');
+    writeFileSync(join(tempDir, 'foo', '[id].mjs'), '');
+    writeFileSync(
+      join(tempDir, 'baz', 'qux.mjs'),
+      "export default { aliases: ['q'] };",
+    );
+
+    expect(await generateCommandManifest(tempDir)).toEqual({
+      version: COMMAND_MANIFEST_VERSION,
+      routes: {
+        '': { name: '', subcommands: ['baz', 'foo'] },
+        baz: { name: 'baz', subcommands: ['qux'] },
+        'baz/qux': {
+          name: 'qux',
+          modulePath: 'baz/qux.mjs',
+          aliases: ['q'],
+        },
+        foo: { name: 'foo', modulePath: 'foo.js', subcommands: ['[id]'] },
+        'foo/[id]': { name: '[id]', modulePath: 'foo/[id].mjs' },
+      },
+    } satisfies CommandManifest);
+  });
+
+  it('generates a manifest with custom extensions', async () => {
+    writeFileSync(join(tempDir, 'foo.js'), '');
+    writeFileSync(join(tempDir, 'foo.cjs'), '');
+    writeFileSync(join(tempDir, 'bar.mjs'), '');
+
+    expect(
+      await generateCommandManifest(tempDir, { extensions: ['.cjs', '.js'] }),
+    ).toEqual({
+      version: COMMAND_MANIFEST_VERSION,
+      routes: {
+        '': { name: '', subcommands: ['foo'] },
+        foo: { name: 'foo', modulePath: 'foo.cjs' },
+      },
+    } satisfies CommandManifest);
+  });
+
+  it('writes and reads manifest files', async () => {
+    writeFileSync(join(tempDir, 'foo.js'), '');
+
+    const written = await writeCommandManifest(tempDir);
+    const manifestPath = join(tempDir, COMMAND_MANIFEST_FILE_NAME);
+
+    expect(readCommandManifest(manifestPath)).toEqual(written);
+    expect(readCommandManifest(join(tempDir, 'missing.json'))).toBeUndefined();
+
+    writeFileSync(manifestPath, JSON.stringify({ version: 1, routes: {} }));
+    expect(() => readCommandManifest(manifestPath)).toThrow(
+      'Unsupported manifest version',
+    );
+  });
+
+  it('resolves commands without reading the file system', async () => {
+    const { mocks } = mockCommandModules({
+      'commands/foo': { handler: () => {} },
+      'commands/foo/bar': { handler: () => {} },
+      'commands/[id]': { handler: () => {} },
+    });
+    const source = createManifestCommandSource(manifest, 'commands');
+
+    expect(source.readDir('commands')).toEqual(['foo', '[id]']);
+    expect(source.isDirectory('commands/foo')).toBe(true);
+    expect(source.isDirectory('commands/foo/bar')).toBe(false);
+
+    const resolved = await resolveCommand({
+      commandString: 'foo bar',
+      commandsDir: 'commands',
+      source,
+    });
+
+    expect(resolved).toMatchObject({
+      command: mocks['commands/foo'],
+      commandPath: 'commands/foo.js',
+      commandName: 'foo',
+      remainingCommandString: 'bar',
+      subcommandsDir: 'commands/foo',
+    } satisfies Partial<ResolvedCommand>);
+
+    expect(
+      await resolveCommand({
+        commandString: '123',
+        commandsDir: 'commands',
+        source,
+      }),
+    ).toMatchObject({
+      command: mocks['commands/[id]'],
+      commandPath: 'commands/[id].js',
+      params: { id: '123' },
+    } satisfies Partial<ResolvedCommand>);
+
+    expect(readdirSync).not.toHaveBeenCalled();
+    expect(statSync).not.toHaveBeenCalled();
+  });
+
+  it('resolves aliases without importing other commands', async () => {
+    const { mocks } = mockCommandModules({
+      'commands/foo': { handler: () => {} },
+      'commands/bar': { aliases: ['b'], handler: () => {} },
+    });
+    const source = createManifestCommandSource(
+      {
+        version: COMMAND_MANIFEST_VERSION,
+        routes: {
+          '': { name: '', subcommands: ['foo', 'bar'] },
+          foo: { name: 'foo', modulePath: 'foo.js' },
+          bar: { name: 'bar', modulePath: 'bar.js', aliases: ['b'] },
+        },
+      },
+      'commands',
+    );
+    const importCommand = vi.spyOn(source, 'importCommand');
+
+    const resolved = await resolveCommand({
+      commandString: 'b',
+      commandsDir: 'commands',
+      source,
+    });
+
+    expect(resolved).toMatchObject({
+      command: mocks['commands/bar'],
+      commandName: 'bar',
+    } satisfies Partial<ResolvedCommand>);
+    expect(importCommand).not.toHaveBeenCalledWith(
+      'commands/foo',
+      expect.anything(),
+    );
+  });
+
+  it('is used by run() when provided', async () => {
+    const { mocks } = mockCommandModules({
+      'commands/foo': { handler: vi.fn(({ next }) => next()) },
+      'commands/foo/bar': { handler: vi.fn() },
+    });
+
+    await run({
+      command: 'foo bar',
+      commandsDir: 'commands',
+      manifest,
+    });
+
+    expect(mocks['commands/foo'].handler).toHaveBeenCalled();
+    expect(mocks['commands/foo/bar'].handler).toHaveBeenCalled();
+    expect(readdirSync).not.toHaveBeenCalled();
+  });
+});
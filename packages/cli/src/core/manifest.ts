@@ -0,0 +1,297 @@
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { extname, join, posix, relative, sep } from 'node:path';
+import {
+  type CommandSource,
+  DEFAULT_COMMAND_EXTENSIONS,
+  type TranspileFn,
+  importModule,
+} from 'src/core/command-source';
+import { CliError, type CliErrorOptions } from 'src/core/errors';
+import { removeFileExtension } from 'src/utils/filename';
+import { isFile } from 'src/utils/fs';
+
+/**
+ * The default file name for a command manifest, looked up in the commands
+ * directory.
+ */
+export const COMMAND_MANIFEST_FILE_NAME = 'commands.manifest.json';
+
+/**
+ * The current version of the command manifest format.
+ */
+export const COMMAND_MANIFEST_VERSION = 2;
+
+// Errors //
+
+/**
+ * An error indicating a command manifest couldn't be read.
+ * @group Errors
+ */
+export class CommandManifestError extends CliError {
+  constructor(error: unknown, options?: CliErrorOptions) {
+    super(error, {
+      name: 'CommandManifestError',
+      ...options,
+    });
+  }
+}
+
+// Types //
+
+/**
+ * A route in a {@linkcode CommandManifest}.
+ * @group Manifest
+ */
+export interface CommandManifestRoute {
+  /**
+   * The name of the command, e.g., `deploy` or `[env]`.
+   */
+  name: string;
+
+  /**
+   * The path to the command module, relative to the commands directory. Routes
+   * without a module path are pass-through directories.
+   */
+  modulePath?: string;
+
+  /**
+   * The aliases of the route's command, used to resolve commands by alias
+   * without importing every command in the directory.
+   */
+  aliases?: string[];
+
+  /**
+   * The names of the route's subcommands. Only defined if the route has a
+   * subcommands directory.
+   */
+  subcommands?: string[];
+}
+
+/**
+ * A precompiled route table for a commands directory, used to resolve commands
+ * without probing the file system.
+ *
+ * @group Manifest
+ */
+export interface CommandManifest {
+  /**
+   * The version of the manifest format.
+   */
+  version: number;
+
+  /**
+   * The routes in the commands directory keyed by their path relative to the
+   * commands directory, without file extensions. The root directory is keyed
+   * by an empty string.
+   *
+   * @example
+   * ```json
+   * {
+   *   "": { "name": "", "subcommands": ["deploy"] },
+   *   "deploy": {
+   *     "name": "deploy",
+   *     "modulePath": "deploy.js",
+   *     "subcommands": ["[env]"]
+   *   },
+   *   "deploy/[env]": { "name": "[env]", "modulePath": "deploy/[env].js" }
+   * }
+   * ```
+   */
+  routes: Record<string, CommandManifestRoute>;
+}
+
+/**
+ * Options for generating a {@linkcode CommandManifest}.
+ * @group Manifest
+ */
+export interface GenerateCommandManifestOptions {
+  /**
+   * The file extensions to look for command modules with, in order of
+   * preference. Should match the `extensions` passed to `run()`.
+   * @default DEFAULT_COMMAND_EXTENSIONS
+   */
+  extensions?: string[];
+
+  /**
+   * A function to import TypeScript command modules with.
+   */
+  transpile?: TranspileFn;
+}
+
+// Functions //
+
+/**
+ * Generate a {@linkcode CommandManifest} by walking a commands directory. This
+ * is intended to be called at build time, e.g., after compiling the commands.
+ * Each command module is imported to record its aliases.
+ *
+ * @param commandsDir - The path to the commands directory.
+ * @param options - Options for generating the manifest.
+ * @returns The generated manifest.
+ *
+ * @group Manifest
+ */
+export async function generateCommandManifest(
+  commandsDir: string,
+  {
+    extensions = DEFAULT_COMMAND_EXTENSIONS,
+    transpile,
+  }: GenerateCommandManifestOptions = {},
+): Promise<CommandManifest> {
+  const manifest: CommandManifest = {
+    version: COMMAND_MANIFEST_VERSION,
+    routes: {},
+  };
+  addRoutes(manifest, commandsDir, '', extensions);
+
+  for (const route of Object.values(manifest.routes)) {
+    if (!route.modulePath) continue;
+    const { default: command } = await importModule(
+      join(commandsDir, route.modulePath),
+      transpile,
+    );
+    if (command?.aliases?.length) route.aliases = command.aliases;
+  }
+
+  return manifest;
+}
+
+/**
+ * Generate a {@linkcode CommandManifest} for a commands directory and write it
+ * to a file.
+ *
+ * @param commandsDir - The path to the commands directory.
+ * @param outFile - The path to write the manifest to. Defaults to
+ * {@linkcode COMMAND_MANIFEST_FILE_NAME} in the commands directory, where
+ * `run()` will find it automatically.
+ * @param options - Options for generating the manifest.
+ * @returns The generated manifest.
+ *
+ * @group Manifest
+ */
+export async function writeCommandManifest(
+  commandsDir: string,
+  outFile = join(commandsDir, COMMAND_MANIFEST_FILE_NAME),
+  options?: GenerateCommandManifestOptions,
+): Promise<CommandManifest> {
+  const manifest = await generateCommandManifest(commandsDir, options);
+  writeFileSync(outFile, JSON.stringify(manifest, null, 2));
+  return manifest;
+}
+
+/**
+ * Read a {@linkcode CommandManifest} from a file.
+ *
+ * @param path - The path to the manifest file.
+ * @returns The manifest or `undefined` if the file doesn't exist.
+ * @throws {CommandManifestError} If the file isn't a valid manifest.
+ *
+ * @group Manifest
+ */
+export function readCommandManifest(path: string): CommandManifest | undefined {
+  if (!isFile(path, [])) return undefined;
+
+  let manifest: CommandManifest;
+  try {
+    manifest = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new CommandManifestError(`Unable to parse manifest at "${path}"`, {
+      cause: error,
+    });
+  }
+
+  if (manifest?.version !== COMMAND_MANIFEST_VERSION || !manifest.routes) {
+    throw new CommandManifestError(
+      `Unsupported manifest version at "${path}". Expected version ${COMMAND_MANIFEST_VERSION}, received ${manifest?.version}. Regenerate the manifest with \`writeCommandManifest()\`.`,
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Create a {@linkcode CommandSource} that looks up commands in a
+ * {@linkcode CommandManifest} instead of probing the file system.
+ *
+ * @param manifest - The manifest to look up commands in.
+ * @param commandsDir - The path to the commands directory the manifest was
+ * generated for. Module paths in the manifest are resolved relative to it.
+ * @param transpile - A function to import TypeScript command modules with.
+ *
+ * @group Manifest
+ */
+export function createManifestCommandSource(
+  manifest: CommandManifest,
+  commandsDir: string,
+  transpile?: TranspileFn,
+): CommandSource {
+  function getRoute(path: string) {
+    const routeKey = relative(commandsDir, path).split(sep).join(posix.sep);
+    return manifest.routes[routeKey];
+  }
+
+  return {
+    readDir: (path) => getRoute(path)?.subcommands || [],
+    isDirectory: (path) => !!getRoute(path)?.subcommands,
+    importCommand: async (path) => {
+      const modulePath = getRoute(path)?.modulePath;
+      if (!modulePath) return undefined;
+      const commandPath = join(commandsDir, modulePath);
+      const { default: command } = await importModule(commandPath, transpile);
+      return { command, commandPath };
+    },
+    readAliases: (path) => getRoute(path)?.aliases || [],
+  };
+}
+
+// Internal //
+
+function addRoutes(
+  manifest: CommandManifest,
+  commandsDir: string,
+  routePath: string,
+  extensions: string[],
+) {
+  const subcommands = new Set<string>();
+  const entries = readdirSync(join(commandsDir, routePath), {
+    withFileTypes: true,
+  }).sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      const entryPath = posix.join(routePath, entry.name);
+      subcommands.add(entry.name);
+      manifest.routes[entryPath] ??= { name: entry.name };
+      addRoutes(manifest, commandsDir, entryPath, extensions);
+      continue;
+    }
+
+    // Skip files that aren't modules, including declaration files.
+    const extension = extname(entry.name);
+    if (
+      !extensions.includes(extension) ||
+      entry.name.endsWith(`.d${extension}`)
+    ) {
+      continue;
+    }
+
+    const name = removeFileExtension(entry.name);
+    const entryPath = posix.join(routePath, name);
+    const route = (manifest.routes[entryPath] ??= { name });
+    subcommands.add(name);
+
+    // Prefer extensions earlier in the list if multiple modules share a name.
+    if (
+      !route.modulePath ||
+      extensions.indexOf(extension) <
+        extensions.indexOf(extname(route.modulePath))
+    ) {
+      route.modulePath = posix.join(routePath, entry.name);
+    }
+  }
+
+  const route = (manifest.routes[routePath] ??= {
+    name: posix.basename(routePath),
+  });
+  route.subcommands = Array.from(subcommands);
+}
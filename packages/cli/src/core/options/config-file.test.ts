@@ -0,0 +1,144 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { command } from 'src/core/command';
+import type { CommandTree } from 'src/core/command-tree';
+import {
+  ConfigFileError,
+  findConfigFile,
+  getConfigOptionValues,
+  loadConfigFile,
+} from 'src/core/options/config-file';
+import { run } from 'src/core/run';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('config file', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'gud-cli-config-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('searches up from the cwd', async () => {
+    const cwd = join(tempDir, 'packages', 'app');
+    mkdirSync(cwd, { recursive: true });
+
+    expect(findConfigFile({ name: 'mycli', cwd })).toBeUndefined();
+
+    writeFileSync(
+      join(tempDir, 'package.json'),
+      JSON.stringify({ name: 'root', mycli: { verbose: true } }),
+    );
+    expect(findConfigFile({ name: 'mycli', cwd })).toBe(
+      join(tempDir, 'package.json'),
+    );
+
+    writeFileSync(join(tempDir, 'packages', '.myclirc'), '{}');
+    expect(findConfigFile({ name: 'mycli', cwd })).toBe(
+      join(tempDir, 'packages', '.myclirc'),
+    );
+  });
+
+  it('loads config modules', async () => {
+    writeFileSync(
+      join(tempDir, 'mycli.config.mjs'),
+      'export default { region: "eu", commands: { deploy: { force: true } } };',
+    );
+
+    expect(await loadConfigFile({ name: 'mycli', cwd: tempDir })).toEqual({
+      path: join(tempDir, 'mycli.config.mjs'),
+      values: { region: 'eu' },
+      commands: { deploy: { force: true } },
+    });
+  });
+
+  it('merges command sections and validates values', () => {
+    const configFile = {
+      path: '.myclirc',
+      values: { port: '3000', tags: 'a,b', unknown: 1 },
+      commands: { db: { port: 5432 }, 'db migrate': { p: 6543 } },
+    };
+    const optionsConfig = {
+      port: { type: 'number' as const, alias: ['p'] },
+      tags: { type: 'array' as const },
+    };
+
+    expect(getConfigOptionValues(configFile, [], optionsConfig)).toEqual({
+      port: 3000,
+      tags: ['a', 'b'],
+    });
+    expect(
+      getConfigOptionValues(configFile, ['db', 'db migrate'], optionsConfig),
+    ).toEqual({ port: 6543, tags: ['a', 'b'] });
+    expect(() =>
+      getConfigOptionValues(configFile, [], {
+        port: { type: 'string', choices: ['80', '443'] },
+      }),
+    ).toThrowError(
+      'Invalid value for string option "port" (from config file ./.myclirc): 3000',
+    );
+  });
+
+  it('names the option and file of invalid values', () => {
+    expect(() =>
+      getConfigOptionValues(
+        { path: '.myclirc', values: { define: 'x' }, commands: {} },
+        [],
+        { define: { type: 'record' } },
+      ),
+    ).toThrowError(
+      'Invalid value for option "define" (from config file ./.myclirc): x\n\nExpected a KEY=VALUE pair, received "x".',
+    );
+  });
+
+  it('uses config values under flags and env vars', async () => {
+    writeFileSync(
+      join(tempDir, '.myclirc'),
+      JSON.stringify({
+        'log-level': 'warn',
+        commands: { log: { 'log-level': 'error' } },
+      }),
+    );
+    const commands: CommandTree = {
+      log: command({
+        options: {
+          'log-level': { type: 'string', default: 'info' },
+        },
+        handler: async ({ options, end }) => end(await options.logLevel()),
+      }),
+    };
+    const configFile = { name: 'mycli', cwd: tempDir };
+
+    expect(await run({ command: 'log', commands, configFile })).toBe('error');
+
+    vi.stubEnv('MYCLI_LOG_LEVEL', 'debug');
+    expect(
+      await run({ command: 'log', commands, configFile, envPrefix: 'MYCLI' }),
+    ).toBe('debug');
+    expect(
+      await run({ command: 'log --log-level trace', commands, configFile }),
+    ).toBe('trace');
+  });
+
+  it('handles errors loading the config file like other errors', async () => {
+    writeFileSync(join(tempDir, '.myclirc'), '[]');
+    const beforeError = vi.fn();
+
+    await expect(
+      run({
+        command: 'log',
+        commands: { log: { handler: () => {} } },
+        configFile: { name: 'mycli', cwd: tempDir },
+        hooks: { beforeError },
+      }),
+    ).rejects.toThrow(ConfigFileError);
+    expect(beforeError).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.any(ConfigFileError) }),
+    );
+  });
+});
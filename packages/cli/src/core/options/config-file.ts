@@ -0,0 +1,274 @@
+import { readFileSync } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+import { type TranspileFn, importModule } from 'src/core/command-source';
+import { CliError, type CliErrorOptions } from 'src/core/errors';
+import type { OptionSource } from 'src/core/options/option-source';
+import {
+  type OptionValues,
+  type OptionsConfig,
+  getOptionKeys,
+} from 'src/core/options/options';
+import {
+  normalizeSourceOptionValue,
+  validateOptions,
+} from 'src/core/options/validate-options';
+import { isFile } from 'src/utils/fs';
+
+/**
+ * The key of the per-command sections in a config file.
+ */
+export const CONFIG_FILE_COMMANDS_KEY = 'commands';
+
+// Types //
+
+/**
+ * Options for finding and loading a config file.
+ *
+ * @group Options
+ */
+export interface ConfigFileOptions {
+  /**
+   * The name of the CLI, used to derive the config file names, e.g., `mycli`
+   * for `.myclirc`, `mycli.config.json`, `mycli.config.js`, and
+   * `mycli.config.ts`, and as the key in `package.json`.
+   */
+  name: string;
+
+  /**
+   * The directory to start searching up from.
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * A function to import TypeScript config files with.
+   */
+  transpile?: TranspileFn;
+}
+
+/**
+ * A loaded config file.
+ *
+ * @group Options
+ */
+export interface ConfigFile {
+  /**
+   * The path to the config file.
+   */
+  path: string;
+
+  /**
+   * The option values that apply to every command.
+   */
+  values: OptionValues;
+
+  /**
+   * Option values for specific commands, keyed by command path, i.e., the
+   * names of the commands joined by spaces, e.g., `deploy` or `db migrate`.
+   */
+  commands: Record<string, OptionValues>;
+}
+
+// Errors //
+
+/**
+ * An error indicating a config file couldn't be loaded or has invalid values.
+ * @group Errors
+ */
+export class ConfigFileError extends CliError {
+  constructor(error: unknown, options?: CliErrorOptions) {
+    super(error, {
+      name: 'ConfigFileError',
+      ...options,
+    });
+  }
+}
+
+// Functions //
+
+/**
+ * Get the file names a config file is looked up by, in order of preference.
+ *
+ * @param name - The name of the CLI.
+ *
+ * @group Options
+ */
+export function getConfigFileNames(name: string): string[] {
+  return [
+    `.${name}rc`,
+    `.${name}rc.json`,
+    `${name}.config.json`,
+    `${name}.config.js`,
+    `${name}.config.mjs`,
+    `${name}.config.cjs`,
+    `${name}.config.ts`,
+    `${name}.config.mts`,
+    `${name}.config.cts`,
+  ];
+}
+
+/**
+ * Search up from a directory for a config file, stopping at the first
+ * directory with a config file or a `package.json` with a key for the CLI.
+ *
+ * @param options - Options for finding the config file.
+ * @returns The path to the config file, or `undefined` if none was found.
+ *
+ * @group Options
+ */
+export function findConfigFile({
+  name,
+  cwd = process.cwd(),
+}: ConfigFileOptions): string | undefined {
+  let dir = resolve(cwd);
+
+  while (true) {
+    for (const fileName of getConfigFileNames(name)) {
+      const path = join(dir, fileName);
+      if (isFile(path, [])) return path;
+    }
+
+    const packagePath = join(dir, 'package.json');
+    if (isFile(packagePath, [])) {
+      const packageJson = readJsonFile(packagePath);
+      if (packageJson?.[name] !== undefined) return packagePath;
+    }
+
+    const parentDir = dirname(dir);
+    if (parentDir === dir) return;
+    dir = parentDir;
+  }
+}
+
+/**
+ * Find and load a config file. JSON and rc files are parsed as JSON, modules
+ * are imported and their default export is used, and `package.json` files are
+ * read from the key for the CLI.
+ *
+ * @example
+ * ```json
+ * // .myclirc
+ * {
+ *   "log-level": "debug",
+ *   "commands": {
+ *     "deploy": { "region": "us-east-1" }
+ *   }
+ * }
+ * ```
+ *
+ * @param options - Options for finding the config file.
+ * @returns The loaded config file, or `undefined` if none was found.
+ *
+ * @throws {ConfigFileError} If the config file can't be read or isn't an
+ * object.
+ *
+ * @group Options
+ */
+export async function loadConfigFile(
+  options: ConfigFileOptions,
+): Promise<ConfigFile | undefined> {
+  const path = findConfigFile(options);
+  if (!path) return;
+
+  let content: unknown;
+
+  if (path.endsWith('package.json')) {
+    content = readJsonFile(path)?.[options.name];
+  } else if (!extname(path) || extname(path) === '.json') {
+    content = readJsonFile(path);
+  } else {
+    try {
+      const module = await importModule(path, options.transpile);
+      content = module.default ?? module;
+    } catch (error) {
+      throw new ConfigFileError(`Unable to import config file "${path}"`, {
+        cause: error,
+      });
+    }
+  }
+
+  if (!isObject(content)) {
+    throw new ConfigFileError(
+      `Invalid config file "${path}". Expected an object of option values.`,
+    );
+  }
+
+  const { [CONFIG_FILE_COMMANDS_KEY]: commands = {}, ...values } = content;
+
+  if (!isObject(commands) || !Object.values(commands).every(isObject)) {
+    throw new ConfigFileError(
+      `Invalid config file "${path}". Expected "${CONFIG_FILE_COMMANDS_KEY}" to be an object of option values keyed by command path.`,
+    );
+  }
+
+  return { path, values, commands };
+}
+
+/**
+ * Get the option values from a config file for a chain of commands. Values in
+ * the sections of more specific commands take precedence, and values for
+ * options that aren't in the options config are ignored.
+ *
+ * @param configFile - The loaded config file.
+ * @param commandPaths - The paths of the commands being executed, from the
+ * outermost to the innermost, e.g., `['db', 'db migrate']`.
+ * @param optionsConfig - The options config.
+ * @returns The normalized option values keyed by their config keys.
+ *
+ * @throws {OptionsError} If a value is invalid for its option.
+ *
+ * @group Options
+ */
+export function getConfigOptionValues(
+  configFile: ConfigFile,
+  commandPaths: string[],
+  optionsConfig: OptionsConfig,
+): OptionValues {
+  const sections = [
+    configFile.values,
+    ...commandPaths.map((path) => configFile.commands[path] || {}),
+  ];
+  const values: OptionValues = {};
+  const source: OptionSource = { type: 'config', path: configFile.path };
+
+  for (const [key, config] of Object.entries(optionsConfig)) {
+    const keys = getOptionKeys(key, config);
+
+    for (const section of sections) {
+      const valueKey = keys.find((k) => section[k] !== undefined);
+      if (!valueKey) continue;
+
+      const value = normalizeSourceOptionValue({
+        value: section[valueKey],
+        name: valueKey,
+        config,
+        source,
+      });
+      if (value !== undefined) values[key] = value;
+    }
+  }
+  validateOptions({
+    values,
+    config: optionsConfig,
+    sources: Object.fromEntries(
+      Object.keys(values).map((key) => [key, source]),
+    ),
+    validations: { type: true },
+  });
+
+  return values;
+}
+
+// Internal //
+
+function readJsonFile(path: string): Record<string, any> | undefined {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new ConfigFileError(`Unable to parse "${path}"`, { cause: error });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,167 @@
+import { command } from 'src/core/command';
+import type { CommandTree } from 'src/core/command-tree';
+import { Context } from 'src/core/context';
+import { getHelp } from 'src/core/help';
+import {
+  getEnvOptionValues,
+  getOptionEnvName,
+} from 'src/core/options/option-env';
+import { OptionsError } from 'src/core/options/validate-options';
+import { run } from 'src/core/run';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+describe('option env', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('derives env names from the prefix', () => {
+    expect(getOptionEnvName('log-level', { type: 'string' }, 'MYCLI')).toBe(
+      'MYCLI_LOG_LEVEL',
+    );
+    expect(getOptionEnvName('dryRun', { type: 'boolean' }, 'MYCLI')).toBe(
+      'MYCLI_DRY_RUN',
+    );
+    expect(
+      getOptionEnvName('l', { type: 'string', alias: ['log-level'] }, 'MYCLI'),
+    ).toBe('MYCLI_LOG_LEVEL');
+    expect(
+      getOptionEnvName('token', { type: 'string', env: 'API_TOKEN' }, 'MYCLI'),
+    ).toBe('API_TOKEN');
+    expect(getOptionEnvName('log-level', { type: 'string' })).toBeUndefined();
+  });
+
+  it('parses env values with the option type', () => {
+    expect(
+      getEnvOptionValues(
+        {
+          port: { type: 'number' },
+          tags: { type: 'array' },
+          verbose: { type: 'boolean' },
+          name: { type: 'string', default: 'foo' },
+        },
+        {
+          prefix: 'APP',
+          env: { APP_PORT: '8080', APP_TAGS: 'a,b', APP_VERBOSE: 'true' },
+        },
+      ),
+    ).toEqual({ port: 8080, tags: ['a', 'b'], verbose: true });
+  });
+
+  it('keeps commas in record env values', () => {
+    expect(
+      getEnvOptionValues(
+        { define: { type: 'record', env: 'DEFINE' } },
+        { env: { DEFINE: 'A=1,2,B=3=4,C=' } },
+      ),
+    ).toEqual({ define: { A: '1,2', B: '3=4', C: '' } });
+  });
+
+  it('parses boolean env values case-insensitively', () => {
+    const options = { verbose: { type: 'boolean' as const, env: 'VERBOSE' } };
+    const parse = (value: string) =>
+      getEnvOptionValues(options, { env: { VERBOSE: value } }).verbose;
+
+    expect(parse('1')).toBe(true);
+    expect(parse('TRUE')).toBe(true);
+    expect(parse('yes')).toBe(true);
+    expect(parse('0')).toBe(false);
+    expect(parse('False')).toBe(false);
+    expect(parse('no')).toBe(false);
+    expect(() => parse('maybe')).toThrowError(
+      new OptionsError(
+        'Invalid value for option "verbose" (from environment variable VERBOSE): maybe\n\nExpected one of true, 1, yes, y, on, false, 0, no, n, off.',
+      ),
+    );
+  });
+
+  it('names the option and variable of invalid values', async () => {
+    const options = { define: { type: 'record' as const } };
+
+    expect(() =>
+      getEnvOptionValues(options, { prefix: 'APP', env: { APP_DEFINE: 'x' } }),
+    ).toThrowError(
+      new OptionsError(
+        'Invalid value for option "define" (from environment variable APP_DEFINE): x\n\nExpected a KEY=VALUE pair, received "x".',
+      ),
+    );
+
+    const beforeError = vi.fn();
+    vi.stubEnv('APP_DEFINE', 'x');
+    await expect(
+      run({
+        command: 'build',
+        commands: { build: { options, handler: () => {} } },
+        envPrefix: 'APP',
+        hooks: { beforeError },
+      }),
+    ).rejects.toThrowError(OptionsError);
+    expect(beforeError).toHaveBeenCalled();
+  });
+
+  it('uses env values between flags and defaults', async () => {
+    const commands: CommandTree = {
+      log: command({
+        options: {
+          'log-level': { type: 'string', default: 'info' },
+        },
+        handler: async ({ options, end }) => end(await options.logLevel()),
+      }),
+    };
+
+    expect(await run({ command: 'log', commands, envPrefix: 'MYCLI' })).toBe(
+      'info',
+    );
+
+    vi.stubEnv('MYCLI_LOG_LEVEL', 'debug');
+    expect(await run({ command: 'log', commands, envPrefix: 'MYCLI' })).toBe(
+      'debug',
+    );
+    expect(
+      await run({
+        command: 'log --log-level warn',
+        commands,
+        envPrefix: 'MYCLI',
+      }),
+    ).toBe('warn');
+  });
+
+  it("doesn't read env values for options set by flags", async () => {
+    const commands: CommandTree = {
+      build: command({
+        options: { force: { type: 'boolean' } },
+        handler: async ({ options, end }) => end(await options.force()),
+      }),
+    };
+
+    vi.stubEnv('APP_FORCE', 'maybe');
+    expect(
+      await run({ command: 'build --force', commands, envPrefix: 'APP' }),
+    ).toBe(true);
+    await expect(
+      run({ command: 'build', commands, envPrefix: 'APP' }),
+    ).rejects.toThrowError(OptionsError);
+  });
+
+  it('shows env names in help', async () => {
+    const context = new Context({
+      commandString: 'log',
+      commandsDir: 'commands',
+      envPrefix: 'MYCLI',
+      commands: {
+        log: {
+          options: { 'log-level': { type: 'string', description: 'Level' } },
+          handler: () => {},
+        },
+      },
+    });
+    await context.prepare();
+
+    const { options } = await getHelp({ context });
+
+    expect(options).toContainEqual([
+      '--log-level [string]',
+      'Level (env: MYCLI_LOG_LEVEL)',
+    ]);
+  });
+});
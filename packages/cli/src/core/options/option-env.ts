@@ -0,0 +1,99 @@
+import {
+  type OptionConfig,
+  type OptionValues,
+  type OptionsConfig,
+  getOptionDisplayName,
+} from 'src/core/options/options';
+import { normalizeSourceOptionValue } from 'src/core/options/validate-options';
+
+// Types //
+
+/**
+ * Options for reading option values from environment variables.
+ *
+ * @group Options
+ */
+export interface EnvOptionValuesOptions {
+  /**
+   * A prefix to derive environment variable names from for options that don't
+   * name an `env` key, e.g., `MYCLI` to map `MYCLI_LOG_LEVEL` to
+   * `--log-level`.
+   */
+  prefix?: string;
+
+  /**
+   * The environment variables to read.
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+}
+
+// Functions //
+
+/**
+ * Get the name of the environment variable bound to an option, either the
+ * option's `env` key or a name derived from the prefix and the option's
+ * display name.
+ *
+ * @example
+ * ```ts
+ * getOptionEnvName('log-level', { type: 'string' }, 'MYCLI'); // 'MYCLI_LOG_LEVEL'
+ * ```
+ *
+ * @param configKey - The option's key in the options config.
+ * @param config - The option's config entry.
+ * @param prefix - The app-wide prefix for environment variable names.
+ * @returns The environment variable name or `undefined` if the option isn't
+ * bound to one.
+ *
+ * @group Options
+ */
+export function getOptionEnvName(
+  configKey: string,
+  config: OptionConfig,
+  prefix?: string,
+): string | undefined {
+  if (config.env) return config.env;
+  if (!prefix) return;
+
+  return `${prefix}_${getOptionDisplayName(configKey, config)}`
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .toUpperCase();
+}
+
+/**
+ * Read the values of options from their environment variables, parsing them
+ * with each option's `type` and `nargs` rules. Options without a set
+ * environment variable are omitted.
+ *
+ * @param optionsConfig - The options config.
+ * @param options - Options for reading the environment variables.
+ * @returns The option values keyed by their config keys.
+ *
+ * @throws {OptionsError} If the value of an environment variable can't be
+ * parsed for its option.
+ *
+ * @group Options
+ */
+export function getEnvOptionValues(
+  optionsConfig: OptionsConfig,
+  { prefix, env = process.env }: EnvOptionValuesOptions = {},
+): OptionValues {
+  const values: OptionValues = {};
+
+  for (const [key, config] of Object.entries(optionsConfig)) {
+    const envName = getOptionEnvName(key, config, prefix);
+    if (!envName) continue;
+
+    const value = normalizeSourceOptionValue({
+      value: env[envName],
+      name: getOptionDisplayName(key, config),
+      config,
+      source: { type: 'env', name: envName },
+    });
+    if (value !== undefined) values[key] = value;
+  }
+
+  return values;
+}
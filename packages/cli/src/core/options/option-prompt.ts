@@ -1,21 +1,29 @@
 import { Client, type PromptParams } from 'src/core/client';
+import { getOptionTypeDefinition } from 'src/core/options/option-types';
 import {
+  type OptionBaseType,
   type OptionConfig,
   type OptionConfigPrimitiveType,
   type OptionType,
   normalizeOptionValue,
 } from 'src/core/options/options';
-import { validateOptionType } from 'src/core/options/validate-options';
+import {
+  coerceOptionValue,
+  validateOptionType,
+} from 'src/core/options/validate-options';
 import type { KeyMap, MaybePromise, Replace } from 'src/utils/types';
 
 // Types //
 
+// Keyed by base type since custom types are prompted for like their base type.
 export type OptionPromptTypeMap = KeyMap<
-  OptionType,
+  OptionBaseType,
   {
     array: 'autocompleteMultiselect' | 'list' | 'multiselect';
     boolean: 'confirm' | 'toggle';
+    count: 'number';
     number: 'number' | 'select';
+    record: 'list';
     secret: 'invisible' | 'password';
     string:
       | 'autocomplete'
@@ -27,7 +35,8 @@ export type OptionPromptTypeMap = KeyMap<
   }
 >;
 
-export type OptionPromptType<T extends OptionType> = OptionPromptTypeMap[T];
+export type OptionPromptType<T extends OptionType> =
+  OptionPromptTypeMap[OptionBaseType<T> & keyof OptionPromptTypeMap];
 
 // Functions + Function Types //
 
@@ -84,6 +93,8 @@ export type OptionPromptParams<T extends OptionConfig = OptionConfig> = Replace<
  * });
  * const val = fooGetter({ prompt: { message: 'Enter foo' } }); // 'foo value'
  *
+ * @returns The answer, coerced and validated with the option's config.
+ *
  * @throws {OptionsError} Throws an error if the option is required and no value
  * is provided or the value is invalid.
  * @group Options
@@ -101,37 +112,74 @@ export async function optionPrompt<
 }: OptionPromptParams<TConfig>): Promise<
   OptionConfigPrimitiveType<TConfig> | undefined
 > {
-  // Assign a default validate function if the option is required and no
-  // validate function is provided
-  if (config?.required && !validate) {
-    validate = (value) =>
-      !!validateOptionType({
-        value,
-        name,
-        config,
-        throws: false,
-      });
+  const definition = getOptionTypeDefinition(config);
+
+  // Cache the last coerced answer so the answer that's validated isn't coerced
+  // again when it's returned.
+  let lastCoerced: { key: string; value: unknown } | undefined;
+  const coerce = (value: any) => {
+    const key = JSON.stringify(value);
+    if (lastCoerced?.key !== key) {
+      lastCoerced = { key, value: config?.coerce?.(value as never) };
+    }
+    return lastCoerced.value as any;
+  };
+
+  // Validate answers with the option's config before the validate function
+  // that was provided, if any.
+  const paramsValidate = validate;
+  if (
+    config &&
+    (config.required ||
+      config.coerce ||
+      config.validate ||
+      definition?.validate ||
+      paramsValidate)
+  ) {
+    validate = async (value) => {
+      if (value !== undefined || config.required) {
+        if (!validateOptionType({ value, name, config, throws: false })) {
+          return false;
+        }
+        try {
+          const coerced = config.coerce ? coerce(value) : value;
+          const validation = config.validate?.(coerced as never) ?? true;
+          if (validation !== true) return validation;
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      }
+      return paramsValidate?.(value) ?? true;
+    };
   }
 
-  let type: PromptParams['type'];
+  let type: PromptParams['type'] = definition?.prompt;
 
   // Determine prompt type based on option type
-  switch (config?.type) {
-    case 'number':
-      type = config?.choices?.length ? 'select' : 'number';
-      break;
-    case 'boolean':
-      type = 'toggle';
-      break;
-    case 'array':
-      type = config?.choices?.length ? 'multiselect' : 'list';
-      break;
-    case 'secret':
-      type = 'password';
-      break;
-    default:
-      type = config?.choices?.length ? 'select' : 'text';
-      break;
+  if (!type) {
+    switch (config?.type) {
+      case 'number':
+        type = config?.choices?.length ? 'select' : 'number';
+        break;
+      case 'count':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'toggle';
+        break;
+      case 'array':
+        type = config?.choices?.length ? 'multiselect' : 'list';
+        break;
+      case 'record':
+        type = 'list';
+        break;
+      case 'secret':
+        type = 'password';
+        break;
+      default:
+        type = config?.choices?.length ? 'select' : 'text';
+        break;
+    }
   }
 
   const promptOptions: PromptParams = {
@@ -150,7 +198,13 @@ export async function optionPrompt<
           if (value === '' && this?.initial !== undefined) {
             value = this?.initial;
           }
-          const preppedValue = normalizeOptionValue(value, config);
+          let preppedValue: OptionConfigPrimitiveType<TConfig> | undefined;
+          try {
+            preppedValue = normalizeOptionValue(value, config);
+          } catch (error) {
+            // Show errors from custom type parsers as validation messages
+            return error instanceof Error ? error.message : String(error);
+          }
           return validate(preppedValue);
         }
       : undefined,
@@ -204,7 +258,11 @@ export async function optionPrompt<
   if (promptOptions.initial === undefined && config?.default !== undefined) {
     const defaultValue = Array.isArray(config?.default)
       ? config?.default.join(',')
-      : config?.default;
+      : typeof config?.default === 'object'
+        ? Object.entries(config.default)
+            .map(([key, value]) => `${key}=${value}`)
+            .join(',')
+        : config?.default;
 
     switch (promptOptions.type) {
       case 'select': {
@@ -230,6 +288,17 @@ export async function optionPrompt<
     }
   }
 
-  const value = await client.prompt(promptOptions);
-  return normalizeOptionValue(value, config);
+  const value = normalizeOptionValue(
+    await client.prompt(promptOptions),
+    config,
+  );
+  if (!config) return value;
+
+  // Coerce and validate the answer in case the prompt doesn't validate.
+  return coerceOptionValue({
+    value,
+    name,
+    config: config.coerce ? { ...config, coerce } : config,
+    source: { type: 'prompt' },
+  });
 }
@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  formatOptionSource,
+  getCliOptionSource,
+} from 'src/core/options/option-source';
+import { run } from 'src/core/run';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+describe('option source', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('finds the flag an option was provided with', () => {
+    const config = { type: 'string' as const, alias: ['r'] };
+
+    expect(getCliOptionSource('deploy -r eu', 'region', config)).toEqual({
+      type: 'cli',
+      flag: '-r',
+    });
+    expect(getCliOptionSource('deploy --region=eu', 'region', config)).toEqual({
+      type: 'cli',
+      flag: '--region',
+    });
+  });
+
+  it('formats sources', () => {
+    expect(formatOptionSource({ type: 'cli', flag: '-r' })).toBe('flag -r');
+    expect(formatOptionSource({ type: 'env', name: 'REGION' })).toBe(
+      'environment variable REGION',
+    );
+    expect(
+      formatOptionSource({
+        type: 'config',
+        path: join(process.cwd(), 'x.json'),
+      }),
+    ).toBe('config file ./x.json');
+  });
+
+  it('tracks the source of parsed options', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'gud-cli-source-'));
+    writeFileSync(join(tempDir, '.myclirc'), '{ "region": "eu" }');
+    vi.stubEnv('MYCLI_PORT', '8080');
+
+    const handler = vi.fn(({ options, end }) =>
+      end({
+        region: options.source('region'),
+        port: options.source('port'),
+        verbose: options.source('verbose'),
+      }),
+    );
+
+    try {
+      const result = await run({
+        command: 'deploy -v',
+        envPrefix: 'MYCLI',
+        configFile: { name: 'mycli', cwd: tempDir },
+        commands: {
+          deploy: {
+            options: {
+              region: { type: 'string' },
+              port: { type: 'number' },
+              verbose: { type: 'boolean', alias: ['v'] },
+            },
+            handler,
+          },
+        },
+      });
+
+      expect(result).toEqual({
+        region: { type: 'config', path: join(tempDir, '.myclirc') },
+        port: { type: 'env', name: 'MYCLI_PORT' },
+        verbose: { type: 'cli', flag: '-v' },
+      });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
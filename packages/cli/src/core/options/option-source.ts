@@ -0,0 +1,100 @@
+import { isAbsolute, relative } from 'node:path';
+import {
+  type OptionConfig,
+  formatOptionFlag,
+  getOptionDisplayName,
+  getOptionKeys,
+  getOptionNegations,
+} from 'src/core/options/options';
+import { splitTokens } from 'src/utils/tokens';
+
+// Types //
+
+/**
+ * Where the value of an option came from.
+ *
+ * - `cli`: A flag on the command line, e.g., `--region` or its alias `-r`.
+ * - `env`: An environment variable bound to the option.
+ * - `config`: A config file loaded with the `configFile` option of `run`.
+ * - `default`: The option's `default`.
+ * - `prompt`: A prompt shown to the user by the option's getter.
+ * - `set`: A call to `options.set()`.
+ *
+ * @group Options
+ */
+export type OptionSource =
+  | { type: 'cli'; flag: string }
+  | { type: 'env'; name: string }
+  | { type: 'config'; path: string }
+  | { type: 'default' }
+  | { type: 'prompt' }
+  | { type: 'set' };
+
+/**
+ * The sources of option values, keyed by option key.
+ *
+ * @group Options
+ */
+export type OptionSources = Record<string, OptionSource>;
+
+// Functions //
+
+/**
+ * Format the source of an option value for messages, e.g.,
+ * `config file ./mycli.config.json` or `flag -r`.
+ *
+ * @group Options
+ */
+export function formatOptionSource(source: OptionSource): string {
+  switch (source.type) {
+    case 'cli':
+      return `flag ${source.flag}`;
+    case 'env':
+      return `environment variable ${source.name}`;
+    case 'config': {
+      const path = relative(process.cwd(), source.path);
+      return `config file ${
+        path.startsWith('..') || isAbsolute(path) ? source.path : `./${path}`
+      }`;
+    }
+    case 'set':
+      return 'options.set()';
+    default:
+      return source.type;
+  }
+}
+
+/**
+ * Get the source of an option's value on the command line by finding the flag
+ * it was provided with, e.g., `-r` if the option was provided by its alias or
+ * `--no-color` if it was negated.
+ *
+ * @param commandString - The command string the option was parsed from.
+ * @param configKey - The option's key in the options config.
+ * @param config - The option's config entry.
+ *
+ * @group Options
+ */
+export function getCliOptionSource(
+  commandString: string,
+  configKey: string,
+  config: OptionConfig,
+): OptionSource {
+  const keys = getOptionKeys(configKey, config);
+  const negations = getOptionNegations(configKey, config);
+
+  for (const token of splitTokens(commandString)) {
+    if (token === '--') break;
+    if (!token.startsWith('-')) continue;
+
+    const name = token.replace(/^-+/, '').split('=')[0]!;
+    if (keys.includes(name) || negations.includes(name)) {
+      return { type: 'cli', flag: formatOptionFlag(name) };
+    }
+  }
+
+  return {
+    type: 'cli',
+    flag: formatOptionFlag(getOptionDisplayName(configKey, config)),
+  };
+}
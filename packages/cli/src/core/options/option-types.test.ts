@@ -0,0 +1,170 @@
+import { Client } from 'src/core/client';
+import { Context } from 'src/core/context';
+import { getHelp } from 'src/core/help';
+import { getEnvOptionValues } from 'src/core/options/option-env';
+import { optionPrompt } from 'src/core/options/option-prompt';
+import {
+  type OptionTypeDefinition,
+  registerOptionType,
+  unregisterOptionType,
+} from 'src/core/options/option-types';
+import { OptionsConfigError } from 'src/core/options/validate-option-config';
+import { OptionsError } from 'src/core/options/validate-options';
+import { run } from 'src/core/run';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+declare module 'src/core/options/options' {
+  interface CustomOptionTypes {
+    hex: `0x${string}`;
+    hexArray: `0x${string}`[];
+    hexRecord: Record<string, `0x${string}`>;
+    port: string;
+  }
+}
+
+describe('option types', () => {
+  const hex: OptionTypeDefinition = {
+    parse: (value) => value.toLowerCase(),
+    validate: (value) =>
+      /^0x[0-9a-f]+$/.test(String(value)) || 'Expected a hex string',
+    prompt: 'invisible',
+    label: '0x...',
+  };
+
+  beforeEach(() => {
+    registerOptionType('hex', hex);
+    registerOptionType('hexArray', hex);
+    registerOptionType('hexRecord', hex);
+  });
+
+  afterEach(() => {
+    unregisterOptionType('hex');
+    unregisterOptionType('hexArray');
+    unregisterOptionType('hexRecord');
+  });
+
+  const options = {
+    color: { type: 'string' as const, customType: 'hex' as const },
+    colors: { type: 'array' as const, customType: 'hexArray' as const },
+  };
+
+  it('parses and validates values with the custom type', async () => {
+    const handler = vi.fn(async ({ options, end }) =>
+      end(await options.get('color', 'colors')),
+    );
+    const commands = { paint: { options, handler } };
+
+    expect(
+      await run({
+        command: 'paint --color 0xFF --colors 0xA,0xB',
+        commands,
+      }),
+    ).toMatchObject({ color: '0xff', colors: ['0xa', '0xb'] });
+    expect(
+      getEnvOptionValues(options, { prefix: 'APP', env: { APP_COLOR: '0xC' } }),
+    ).toEqual({ color: '0xc' });
+
+    await expect(
+      run({ command: 'paint --color red', commands }),
+    ).rejects.toThrowError(
+      'Invalid value for hex option "color": red\n\nExpected a hex string',
+    );
+  });
+
+  it('rejects values the parser throws for', async () => {
+    registerOptionType('port', {
+      parse: (value) => {
+        if (Number.isNaN(Number(value))) throw new Error('Expected a port');
+        return value;
+      },
+    });
+
+    await expect(
+      run({
+        command: 'serve --port abc',
+        commands: {
+          serve: {
+            options: { port: { type: 'string', customType: 'port' } },
+            handler: () => {},
+          },
+        },
+      }),
+    ).rejects.toThrowError(OptionsError);
+
+    unregisterOptionType('port');
+  });
+
+  it('uses the prompt type and help label', async () => {
+    const client = new Client();
+    const prompt = vi.spyOn(client, 'prompt').mockResolvedValue('0xD');
+
+    expect(
+      await optionPrompt({
+        name: 'color',
+        config: options.color,
+        client,
+        message: 'Enter color',
+      }),
+    ).toBe('0xd');
+    expect(prompt).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'invisible' }),
+    );
+
+    const context = new Context({
+      commandString: 'paint',
+      commandsDir: 'commands',
+      commands: { paint: { options, handler: () => {} } },
+    });
+    await context.prepare();
+    const help = await getHelp({ context });
+
+    expect(help.options).toContainEqual(['--color [0x...]']);
+    expect(help.options).toContainEqual(['--colors [0x... ...]']);
+  });
+
+  it('parses and validates the values of record options', async () => {
+    const handler = vi.fn(async ({ options, end }) =>
+      end(await options.palette()),
+    );
+    const commands = {
+      paint: {
+        options: {
+          palette: {
+            type: 'record' as const,
+            customType: 'hexRecord' as const,
+          },
+        },
+        handler,
+      },
+    };
+
+    expect(
+      await run({
+        command: 'paint --palette bg=0xFF --palette fg=0x0A',
+        commands,
+      }),
+    ).toEqual({ bg: '0xff', fg: '0x0a' });
+
+    await expect(
+      run({ command: 'paint --palette bg=red', commands }),
+    ).rejects.toThrowError(
+      'Invalid value for hexRecord option "palette": bg=red\n\nExpected a hex string',
+    );
+
+    const context = new Context({
+      commandString: 'paint',
+      commandsDir: 'commands',
+      commands,
+    });
+    await context.prepare();
+    const help = await getHelp({ context });
+
+    expect(help.options).toContainEqual(['--palette [key=0x... ...]']);
+  });
+
+  it("can't replace base types", () => {
+    expect(() => registerOptionType('string', {})).toThrowError(
+      OptionsConfigError,
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import type { PromptType } from 'prompts';
+import type {
+  CustomOptionTypes,
+  OptionConfig,
+  OptionPrimitiveType,
+  OptionType,
+} from 'src/core/options/options';
+import { OptionsConfigError } from 'src/core/options/validate-option-config';
+
+// Types //
+
+/**
+ * The runtime behavior of a {@linkcode CustomOptionTypes custom option type}.
+ * Options use a custom type by setting its name as their `customType`.
+ *
+ * @example
+ * ```ts
+ * registerOptionType('url', {
+ *   parse: (value) => new URL(value).href,
+ *   validate: (value) => URL.canParse(value) || 'Expected a URL',
+ *   label: 'url',
+ * });
+ *
+ * export default command({
+ *   options: {
+ *     endpoint: { type: 'string', customType: 'url' },
+ *   },
+ * });
+ * ```
+ *
+ * @group Options
+ */
+export interface OptionTypeDefinition<T extends OptionType = OptionType> {
+  /**
+   * Parse a raw string value, e.g., from the command line, an environment
+   * variable, or a prompt. Values of array and `nargs` options and the values
+   * of record entries are parsed one at a time. Throw to reject the value.
+   *
+   * @default The base type's parsing
+   */
+  parse?: (value: string) => OptionScalarValue<T>;
+
+  /**
+   * Validate a parsed value. Values of array and `nargs` options and the
+   * values of record entries are validated one at a time.
+   *
+   * @returns `true` if the value is valid, `false` or an error message if the
+   * value is invalid.
+   */
+  validate?: (value: OptionScalarValue<T>) => boolean | string;
+
+  /**
+   * The type of prompt to show when prompting for a value.
+   * @default The base type's prompt
+   */
+  prompt?: PromptType;
+
+  /**
+   * The label to show for the option's value in help, e.g., `url` for
+   * `--endpoint [url]`.
+   * @default The name of the type
+   */
+  label?: string;
+}
+
+type OptionScalarValue<T extends OptionType> =
+  OptionPrimitiveType<T> extends readonly (infer U)[]
+    ? U
+    : OptionPrimitiveType<T> extends Record<string, infer V>
+      ? V
+      : OptionPrimitiveType<T>;
+
+// Functions //
+
+/**
+ * Register the runtime behavior of a custom option type, used when parsing,
+ * validating, and prompting for the values of options with a matching
+ * `customType` and when rendering them in help.
+ *
+ * The registry is global to the process, so registered types apply to every
+ * CLI run in it, and registering a name again replaces its definition. Use
+ * {@linkcode unregisterOptionType} to remove types, e.g., between tests.
+ *
+ * @param name - The name of the custom type.
+ * @param definition - The custom type's behavior.
+ *
+ * @throws {OptionsConfigError} If the name is a base option type.
+ *
+ * @group Options
+ */
+export function registerOptionType<T extends OptionType>(
+  name: T | (keyof CustomOptionTypes & string) | (string & {}),
+  definition: OptionTypeDefinition<T>,
+): void {
+  if (BASE_OPTION_TYPES.includes(name)) {
+    throw new OptionsConfigError(
+      `Unable to register option type "${name}". It's a base option type.`,
+    );
+  }
+  optionTypes.set(name, definition);
+}
+
+/**
+ * Remove a registered custom option type.
+ *
+ * @param name - The name of the custom type.
+ * @returns `true` if the type was registered.
+ *
+ * @group Options
+ */
+export function unregisterOptionType(name: string): boolean {
+  return optionTypes.delete(name);
+}
+
+/**
+ * Get the registered definition of an option's custom type.
+ *
+ * @param config - The option config.
+ * @returns The definition, or `undefined` if the option doesn't have a
+ * registered custom type.
+ *
+ * @group Options
+ */
+export function getOptionTypeDefinition(
+  config: OptionConfig | undefined,
+): OptionTypeDefinition | undefined {
+  if (!config?.customType) return;
+  return optionTypes.get(config.customType);
+}
+
+// Internal //
+
+const BASE_OPTION_TYPES: string[] = [
+  'string',
+  'secret',
+  'number',
+  'boolean',
+  'count',
+  'array',
+  'record',
+];
+
+const optionTypes = new Map<string, OptionTypeDefinition<any>>();
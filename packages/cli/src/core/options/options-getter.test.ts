@@ -75,5 +75,52 @@ describe('options', () => {
         fooBar: 'bar-baz',
       });
     });
+
+    it('includes "source" function to get where values came from', async () => {
+      const getter = createOptionsGetter({
+        optionsConfig: {
+          region: {
+            type: 'string',
+            alias: ['r'],
+          },
+          port: {
+            type: 'number',
+            default: 3000,
+          },
+          name: {
+            type: 'string',
+          },
+        },
+        optionValues: {
+          region: 'eu',
+        },
+        optionSources: {
+          region: { type: 'cli', flag: '-r' },
+        },
+      });
+
+      expect(getter.source('r')).toEqual({ type: 'cli', flag: '-r' });
+      expect(getter.source('port')).toBeUndefined();
+
+      await getter.port();
+      expect(getter.source('port')).toEqual({ type: 'default' });
+
+      await getter.set('region', 'us');
+      expect(getter.source('region')).toEqual({ type: 'set' });
+      expect(getter.sources.r).toEqual({ type: 'set' });
+    });
+
+    it('defaults count options to zero', async () => {
+      const getter = createOptionsGetter({
+        optionsConfig: {
+          verbose: {
+            type: 'count',
+          },
+        },
+        optionValues: {},
+      });
+
+      expect(await getter.verbose()).toBe(0);
+    });
   });
 });
@@ -4,6 +4,10 @@ import {
   type OptionPromptType,
   optionPrompt,
 } from 'src/core/options/option-prompt';
+import type {
+  OptionSource,
+  OptionSources,
+} from 'src/core/options/option-source';
 import {
   type ExpandedOptionsConfig,
   type OptionAlias,
@@ -17,7 +21,12 @@ import {
   getOptionTypeFromValue,
   normalizeOptionValue,
 } from 'src/core/options/options';
-import { validateOptionType } from 'src/core/options/validate-options';
+import {
+  OptionRequiredError,
+  coerceOptionValue,
+  getOptionRequiredReason,
+  validateOptionType,
+} from 'src/core/options/validate-options';
 import { type CamelCase, camelCase } from 'src/utils/camel-case';
 import type { AnyObject } from 'src/utils/types';
 
@@ -92,6 +101,18 @@ export type OptionsGetter<TOptions extends OptionsConfig = OptionsConfig> = {
     value: V,
   ) => Promise<void>;
 
+  /**
+   * Get the source of an option's value, e.g., a flag on the command line, an
+   * environment variable, a config file, the option's default, a prompt, or
+   * `options.set()`. Returns `undefined` if the option doesn't have a value
+   * yet.
+   *
+   * @param optionName - The name of the option.
+   */
+  source: <K extends keyof ExpandedOptionsConfig<TOptions>>(
+    optionName: K,
+  ) => OptionSource | undefined;
+
   /**
    * Direct access to the values of the options, keyed by their original keys,
    * aliases, and camelCased versions of both. This is useful for checking
@@ -103,6 +124,12 @@ export type OptionsGetter<TOptions extends OptionsConfig = OptionsConfig> = {
       OptionAlias<TOptions[K]>
     >]: OptionConfigPrimitiveType<TOptions[K]>;
   };
+
+  /**
+   * Direct access to the sources of the option values, keyed the same way as
+   * {@linkcode OptionsGetter.values values}.
+   */
+  readonly sources: OptionSources;
 };
 
 /**
@@ -124,6 +151,11 @@ export interface CreateOptionsGetterOptions<
    */
   optionValues?: TOptions;
 
+  /**
+   * The sources of the initial option values, keyed by option key.
+   */
+  optionSources?: OptionSources;
+
   /**
    *  The client to use for prompting.
    */
@@ -175,6 +207,7 @@ export function createOptionsGetter<
   client = new Client(),
   optionsConfig,
   optionValues = {} as TOptionValues,
+  optionSources = {},
   onPromptCancel = process.exit,
 }: CreateOptionsGetterOptions<
   TOptionsConfig,
@@ -182,8 +215,30 @@ export function createOptionsGetter<
 >): OptionsGetter<TOptionsConfig> {
   const expandedConfig: AnyObject<OptionConfig> = {};
 
+  // Set the value and source of an option for all of its keys.
+  function setValue(optionName: string, value: any, source: OptionSource) {
+    const config =
+      expandedConfig[optionName] ||
+      ({ type: getOptionTypeFromValue(value) } as OptionConfig);
+    const optionKeys = getOptionKeys(optionName, config);
+    for (const key of optionKeys) {
+      getter.values[key] = value;
+      if (value === undefined) delete getter.sources[key];
+      else getter.sources[key] = source;
+    }
+  }
+
+  // Get the current value of an option without prompting, falling back to its
+  // default.
+  function peekValue(optionName: string) {
+    const value = getter.values[optionName];
+    if (value !== undefined) return value;
+    return normalizeOptionValue(undefined, expandedConfig[optionName]);
+  }
+
   const getter = {
     values: {},
+    sources: {},
 
     get: async (...keys) => {
       const result: AnyObject = {};
@@ -197,13 +252,21 @@ export function createOptionsGetter<
 
     // setter for option values
     set: async (optionName, value) => {
-      const config = expandedConfig[optionName] || {
-        type: getOptionTypeFromValue(value),
-      };
-      const optionKeys = getOptionKeys(optionName, config);
-      for (const key of optionKeys) getter.values[key] = value;
-      return value;
+      const config = expandedConfig[optionName as string];
+      const source: OptionSource = { type: 'set' };
+      const coerced = config
+        ? coerceOptionValue({
+            value,
+            name: optionName as string,
+            config,
+            source,
+          })
+        : value;
+      setValue(optionName as string, coerced, source);
+      return coerced;
     },
+
+    source: (optionName) => getter.sources[optionName as string],
   } as OptionsGetter;
 
   // iterate over all keys in the options config
@@ -211,6 +274,7 @@ export function createOptionsGetter<
     const config = optionsConfig[configKey];
     const optionKeys = getOptionKeys(configKey, config);
     const valueKey = optionKeys.find((key) => optionValues[key] !== undefined);
+    const source = optionKeys.map((key) => optionSources[key]).find(Boolean);
 
     // loop through all keys for the option to set values and create getters
     for (const key of optionKeys) {
@@ -223,6 +287,7 @@ export function createOptionsGetter<
       // Add the key to the values if any of it's aliases are already set
       if (valueKey) {
         getter.values[key] = optionValues[valueKey];
+        if (source) getter.sources[key] = source;
       }
 
       // Create a getter for the key
@@ -234,7 +299,18 @@ export function createOptionsGetter<
         if (value !== undefined) return value;
 
         value = normalizeOptionValue(value, config);
-        const isMissing = config.required && value === undefined;
+        let source: OptionSource = { type: 'default' };
+
+        // Counts start at zero
+        if (value === undefined && config.type === 'count') value = 0;
+
+        // Check conditional requirements against the values of other options
+        const requiredReason =
+          value === undefined
+            ? getOptionRequiredReason(config, peekValue)
+            : undefined;
+        const isMissing =
+          (config.required || !!requiredReason) && value === undefined;
 
         // Prompt for the value if required or a prompt is provided.
         if (isMissing || params?.prompt) {
@@ -250,11 +326,20 @@ export function createOptionsGetter<
                   message: prompt || `Enter ${key}`,
                 }),
           });
+          source = { type: 'prompt' };
         }
 
-        // Validate and set the value to avoid prompting again
-        validateOptionType({ config, name: key, value });
-        getter.set(key, value as OptionConfigPrimitiveType<any>);
+        if (value === undefined && requiredReason) {
+          throw new OptionRequiredError(key, { reason: requiredReason });
+        }
+
+        // Validate and set the value to avoid prompting again. Prompt answers
+        // are already coerced and validated by the prompt.
+        validateOptionType({ config, name: key, value, source });
+        if (source.type !== 'prompt') {
+          value = coerceOptionValue({ config, name: key, value, source });
+        }
+        setValue(key, value, source);
         return value as OptionConfigPrimitiveType<any>;
       };
     }
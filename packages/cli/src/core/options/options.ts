@@ -1,3 +1,7 @@
+import {
+  type OptionTypeDefinition,
+  getOptionTypeDefinition,
+} from 'src/core/options/option-types';
 import { type CamelCase, camelCase } from 'src/utils/camel-case';
 import type {
   Eval,
@@ -14,7 +18,9 @@ type OptionBaseTypeMap = {
   secret: string;
   number: number;
   boolean: boolean;
+  count: number;
   array: string[];
+  record: Record<string, string>;
 };
 
 /**
@@ -34,6 +40,10 @@ type OptionBaseTypeMap = {
  *     hexArray: `0x${string}`[];
  *   }
  * }
+ *
+ * registerOptionType('hex', {
+ *   validate: (value) => /^0x[0-9a-f]+$/i.test(value) || 'Expected a hex string',
+ * });
  * ```
  *
  * @group Options
@@ -96,6 +106,17 @@ export type OptionArgumentType<
       : never
   : OptionPrimitiveType<T>;
 
+/**
+ * A condition on the values of other options, either the key of an option that
+ * must be set or the values other options must have, e.g., `{ auth: 'basic' }`.
+ * An array of values matches any of them.
+ *
+ * @group Options
+ */
+export type OptionCondition =
+  | string
+  | Record<string, OptionPrimitiveType | MaybeReadonly<OptionPrimitiveType[]>>;
+
 /**
  * The configuration interface for an option used to define how an option will
  * be parsed and validated.
@@ -113,7 +134,9 @@ export type OptionConfig<
       type: OptionBaseType<T>;
 
       /**
-       * custom type registered with {@linkcode OptionPrimitiveTypeMap}.
+       * custom type registered with {@linkcode OptionPrimitiveTypeMap}. If
+       * the type's behavior is registered with `registerOptionType()`, it's
+       * used to parse, validate, and prompt for values and in help.
        */
       customType?: OptionCustomType<T>;
 
@@ -140,12 +163,44 @@ export type OptionConfig<
        */
       description?: string;
 
+      /**
+       * Whether a boolean option can be turned off with a `--no-` flag, e.g.,
+       * `--no-color`, or a custom name for the negative flag, e.g.,
+       * `disable-color`. If `true` or a name, help shows the negative flag.
+       *
+       * @default true for boolean options, but help only shows the `--no-`
+       * flag if the option defaults to `true`.
+       */
+      negatable?: boolean | string;
+
+      /**
+       * The name of an environment variable to read the option's value from
+       * if it isn't provided on the command line, e.g., `MYCLI_LOG_LEVEL`.
+       * Environment values take precedence over the `default`. Boolean
+       * options accept `true`, `1`, `yes`, `false`, `0`, `no`, etc., in any
+       * case.
+       */
+      env?: string;
+
       /**
        * Whether the option is required. If `true`, the getter will throw an
        * error if no value is provided.
        */
       required?: boolean;
 
+      /**
+       * Make the option required when a condition on the values of other
+       * options is met, e.g., `{ auth: 'basic' }` to require it when `--auth`
+       * is `basic`.
+       */
+      requiredIf?: OptionCondition;
+
+      /**
+       * Make the option required unless a condition on the values of other
+       * options is met, e.g., `'local'` to require it unless `--local` is set.
+       */
+      requiredUnless?: OptionCondition;
+
       /**
        * Other options that are required for this option to be used.
        */
@@ -176,6 +231,23 @@ export type OptionConfig<
            * getter prompt will show.
            */
           default?: OptionPrimitiveType<T> | string;
+
+          /**
+           * A function to transform the option's value after it's parsed,
+           * e.g., to resolve a path. Runs for values from every source,
+           * including the command line, defaults, `options.set()`, and
+           * prompts. Throw to reject the value.
+           */
+          coerce?: (value: OptionPrimitiveType<T>) => OptionPrimitiveType<T>;
+
+          /**
+           * A function to validate the option's value after it's coerced.
+           * Runs for values from every source.
+           *
+           * @returns `true` if the value is valid, `false` or an error message
+           * if the value is invalid.
+           */
+          validate?: (value: OptionPrimitiveType<T>) => boolean | string;
         }
       | {
           /**
@@ -192,6 +264,25 @@ export type OptionConfig<
                 ? T[]
                 : OptionPrimitiveType<T>[])
             | string;
+
+          /**
+           * A function to transform the option's values after they're parsed,
+           * e.g., to resolve paths. Runs for values from every source,
+           * including the command line, defaults, `options.set()`, and
+           * prompts. Throw to reject the values.
+           */
+          coerce?: (
+            value: OptionArgumentType<T, number>,
+          ) => OptionArgumentType<T, number>;
+
+          /**
+           * A function to validate the option's values after they're coerced.
+           * Runs for values from every source.
+           *
+           * @returns `true` if the values are valid, `false` or an error
+           * message if the values are invalid.
+           */
+          validate?: (value: OptionArgumentType<T, number>) => boolean | string;
         }
     )
   : never;
@@ -245,6 +336,75 @@ export type OptionsConfig<
   TType extends OptionType = OptionType,
 > = Record<TKey, OptionConfig<TType, TKey>>;
 
+/**
+ * A constraint on how many options in an {@linkcode OptionGroupConfig option
+ * group} can be provided.
+ *
+ * - `exactlyOne`: One option in the group must be provided.
+ * - `atLeastOne`: One or more options in the group must be provided.
+ * - `atMostOne`: No more than one option in the group can be provided.
+ * - `allOrNone`: Either every option in the group or none must be provided.
+ *
+ * @group Options
+ */
+export type OptionGroupConstraint =
+  | 'exactlyOne'
+  | 'atLeastOne'
+  | 'atMostOne'
+  | 'allOrNone';
+
+/**
+ * A named group of options that are listed together in help and can be
+ * constrained as a group.
+ *
+ * @example
+ * ```ts
+ * export default command({
+ *   options: {
+ *     file: { type: 'string' },
+ *     url: { type: 'string' },
+ *     stdin: { type: 'boolean' },
+ *   },
+ *   optionGroups: {
+ *     input: {
+ *       title: 'Input',
+ *       options: ['file', 'url', 'stdin'],
+ *       constraint: 'exactlyOne',
+ *     },
+ *   },
+ * });
+ * ```
+ *
+ * @group Options
+ */
+export interface OptionGroupConfig<TKey extends string = string> {
+  /**
+   * The keys of the options in the group.
+   */
+  options: MaybeReadonly<TKey[]>;
+
+  /**
+   * The title to list the options under in help.
+   * @default The name of the group
+   */
+  title?: string;
+
+  /**
+   * A constraint on how many options in the group can be provided.
+   */
+  constraint?: OptionGroupConstraint;
+}
+
+/**
+ * The option groups for a command, keyed by group name.
+ *
+ * @group Options
+ */
+export type OptionGroupsConfig<TKey extends string = string> = Record<
+  string,
+  OptionGroupConfig<TKey>
+>;
+
 /**
  * A key for an option, including the option key, aliases, and camelCased
  * versions of each.
@@ -333,7 +493,7 @@ export function getOptionTypeFromValue<T>(value: T): OptionType {
     case 'string':
       return 'string';
     case 'object':
-      return 'array';
+      return Array.isArray(value) ? 'array' : 'record';
     default:
       return 'string';
   }
@@ -371,15 +531,53 @@ export function getOptionDisplayName(
   return config?.alias?.find((alias) => alias.length > 1) || configKey;
 }
 
+/**
+ * Format an option name as a command line flag, e.g., `-v` or `--verbose`.
+ *
+ * @param optionName - The option's key, alias, or display name.
+ * @group Options
+ */
+export function formatOptionFlag(optionName: string) {
+  return `${optionName.length === 1 ? '-' : '--'}${optionName}`;
+}
+
+/**
+ * Get the names of the flags that turn off a boolean option, e.g., `no-color`
+ * for `color`, or the option's custom negative name.
+ *
+ * @param configKey - The option's key in the command's options config.
+ * @param config - The option's config entry.
+ * @returns The negative flag names, or an empty array if the option isn't
+ * negatable.
+ *
+ * @group Options
+ */
+export function getOptionNegations(
+  configKey: string,
+  config: OptionConfig,
+): string[] {
+  if (config.type !== 'boolean' || config.negatable === false) return [];
+  if (typeof config.negatable === 'string') return [config.negatable];
+  return [configKey, ...(config.alias || [])]
+    .filter((key) => key.length > 1)
+    .map((key) => `no-${key}`);
+}
+
 /**
  * Normalizes a value for an option based on the option's configuration:
  * - Coerce empty strings to `undefined`.
  * - Split string values into arrays for array options and trim whitespace.
+ * - Split `KEY=VALUE` pairs into objects for record options.
  * - Parse numbers and booleans.
+ * - Parse string values with the option's registered custom type, if any.
  *
  * @param value - The value to prepare.
  * @param config - The option configuration for the value.
  * @returns - The prepared value.
+ *
+ * @throws {Error} If a record entry isn't a `KEY=VALUE` pair or the custom type
+ * fails to parse a value.
+ *
  * @group Options
  */
 export function normalizeOptionValue<T extends OptionConfig>(
@@ -390,24 +588,29 @@ export function normalizeOptionValue<T extends OptionConfig>(
   if (isEmpty(value)) value = config?.default;
   if (isEmpty(value)) return undefined;
 
+  const definition = getOptionTypeDefinition(config);
+  if (config?.type === 'record') {
+    return normalizeRecord(value, definition) as OptionConfigPrimitiveType<T>;
+  }
+
   const nargs = config?.nargs ?? 1;
   if (config?.type === 'array' || nargs > 1) {
-    // Split string values into normalized arrays for array options
-    if (typeof value === 'string') {
-      value = value
-        .split(',')
-        .map((v) => normalizeScalar(v, config?.type)) as OptionArgumentType;
-    }
+    // Split string values into arrays for array options
+    if (typeof value === 'string') value = value.split(',');
 
     // Map array values to their normalized values
     if (Array.isArray(value)) {
       return value.map((v) =>
-        normalizeScalar(v, config?.type),
+        normalizeScalar(v, config?.type, definition),
       ) as OptionConfigPrimitiveType<T>;
     }
   }
 
-  return normalizeScalar(value, config?.type) as OptionConfigPrimitiveType<T>;
+  return normalizeScalar(
+    value,
+    config?.type,
+    definition,
+  ) as OptionConfigPrimitiveType<T>;
 }
 
 // Internal //
@@ -416,24 +619,88 @@ type OptionScalarType<T extends OptionType> =
   OptionPrimitiveType<T> extends infer U
     ? U extends any[]
       ? U[number]
-      : U
+      : U extends Record<string, infer V>
+        ? V
+        : U
     : never;
 
 function normalizeScalar<T extends OptionType>(
   value: unknown,
   type?: T,
+  definition?: OptionTypeDefinition,
 ): OptionScalarType<T> | undefined {
   if (isEmpty(value)) return undefined;
+
+  // Custom types parse raw strings and leave parsed values as-is
+  if (definition?.parse) {
+    return (
+      typeof value === 'string' ? definition.parse(value.trim()) : value
+    ) as OptionScalarType<T>;
+  }
   switch (type) {
     case 'number':
+    case 'count':
       return Number(value) as OptionScalarType<T>;
     case 'boolean':
-      return (value === 'true' || value === true) as OptionScalarType<T>;
+      return parseBoolean(value) as OptionScalarType<T>;
     default:
       return String(value).trim() as OptionScalarType<T>;
   }
 }
 
+const TRUE_STRINGS = ['true', '1', 'yes', 'y', 'on'];
+const FALSE_STRINGS = ['false', '0', 'no', 'n', 'off'];
+
+/**
+ * Parse boolean strings case-insensitively, e.g., `1` or `TRUE` from
+ * environment variables.
+ */
+function parseBoolean(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_STRINGS.includes(normalized)) return true;
+  if (FALSE_STRINGS.includes(normalized)) return false;
+  throw new Error(
+    `Expected one of ${[...TRUE_STRINGS, ...FALSE_STRINGS].join(', ')}.`,
+  );
+}
+
+function normalizeRecord(
+  value: unknown,
+  definition?: OptionTypeDefinition,
+): Record<string, unknown> {
+  // Split string values into entries, e.g., from environment variables. Only
+  // commas followed by a new `KEY=` start an entry, so values can contain
+  // commas, e.g., `A=1,2,B=3` -> `{ A: '1,2', B: '3' }`.
+  if (typeof value === 'string') value = value.split(/,(?=[^,=]+=)/);
+
+  // Split `KEY=VALUE` entries into key-value pairs
+  if (Array.isArray(value)) {
+    value = Object.fromEntries(
+      value.map((entry) => {
+        const [key, ...rest] = String(entry).split('=');
+        if (!key?.trim() || !rest.length) {
+          throw new Error(`Expected a KEY=VALUE pair, received "${entry}".`);
+        }
+        return [key.trim(), rest.join('=')];
+      }),
+    );
+  }
+
+  // Leave other values as-is to fail validation
+  if (typeof value !== 'object' || value === null) {
+    return value as Record<string, unknown>;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      // Keep empty values, e.g., from `KEY=`
+      v === '' ? v : normalizeScalar(v, 'string', definition),
+    ]),
+  );
+}
+
 function isEmpty(value: unknown) {
   return value === undefined || value === '';
 }
@@ -25,7 +25,12 @@ export function removeOptionTokens(
         break;
       case 'object':
         if (Array.isArray(value)) {
-          optionTokens.push(...value);
+          optionTokens.push(...value.map(String));
+        } else if (value) {
+          // Record options
+          optionTokens.push(
+            ...Object.entries(value).map(([key, v]) => `${key}=${v}`),
+          );
         }
     }
   }
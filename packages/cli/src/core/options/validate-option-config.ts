@@ -25,7 +25,14 @@ export class OptionsConfigError extends CliError {
  */
 export function validateOptionsConfig(options: OptionsConfig) {
   for (const [name, config] of Object.entries(options)) {
-    const { required, conflicts, requires } = config;
+    const {
+      required,
+      requiredIf,
+      requiredUnless,
+      conflicts,
+      requires,
+      negatable,
+    } = config;
 
     if (required && conflicts?.length) {
       throw new OptionsConfigError(
@@ -38,5 +45,17 @@ export function validateOptionsConfig(options: OptionsConfig) {
         `Option "${name}" cannot be required and require other options`,
       );
     }
+
+    if (required && (requiredIf || requiredUnless)) {
+      throw new OptionsConfigError(
+        `Option "${name}" cannot be required and conditionally required`,
+      );
+    }
+
+    if (negatable && config.type !== 'boolean') {
+      throw new OptionsConfigError(
+        `Option "${name}" cannot be negatable because it isn't a boolean`,
+      );
+    }
   }
 }
@@ -1,8 +1,20 @@
+import { Client } from 'src/core/client';
+import { command } from 'src/core/command';
+import type { CommandTree } from 'src/core/command-tree';
+import type { OptionValues } from 'src/core/options/options';
+import { createOptionsGetter } from 'src/core/options/options-getter';
 import {
+  OptionGroupConflictsError,
+  OptionGroupIncompleteError,
+  OptionGroupRequiredError,
+  OptionRequiredError,
   OptionsError,
+  UnknownOptionError,
+  coerceOptionValue,
   validateOptions,
 } from 'src/core/options/validate-options';
-import { describe, expect, it } from 'vitest';
+import { run } from 'src/core/run';
+import { describe, expect, it, vi } from 'vitest';
 
 describe('options', () => {
   describe('validator', () => {
@@ -198,5 +210,317 @@ describe('options', () => {
         });
       }).toThrowError(OptionsError);
     });
+
+    it('throws UnknownOptionError on unknown options similar to known ones', async () => {
+      const config = {
+        verbose: {
+          type: 'boolean',
+          alias: ['v'],
+        },
+      } as const;
+
+      expect(() => {
+        validateOptions({
+          values: { verbos: true },
+          config,
+          validations: { unknown: true },
+        });
+      }).toThrowError(new UnknownOptionError('verbos', ['--verbose']));
+
+      // Unknown options without a close match are ignored
+      expect(() => {
+        validateOptions({
+          values: { x: true, force: true },
+          config,
+          validations: { unknown: true },
+        });
+      }).not.toThrow();
+    });
+  });
+
+  describe('conditional requirements', () => {
+    const config = {
+      auth: { type: 'string' },
+      password: { type: 'secret', requiredIf: { auth: ['basic', 'digest'] } },
+      local: { type: 'boolean' },
+      region: { type: 'string', requiredUnless: 'local' },
+    } as const;
+
+    it('throws OptionRequiredError with the reason', () => {
+      expect(() =>
+        validateOptions({
+          values: { auth: 'basic', region: 'us' },
+          config,
+          validations: { required: true },
+        }),
+      ).toThrowError(
+        new OptionRequiredError('password', {
+          reason: 'when "auth" is "basic" or "digest"',
+        }),
+      );
+      expect(() =>
+        validateOptions({
+          values: { auth: 'none' },
+          config,
+          validations: { required: true },
+        }),
+      ).toThrowError('Option "region" is required unless "local" is set');
+      expect(() =>
+        validateOptions({
+          values: { auth: 'none', local: true },
+          config,
+          validations: { required: true },
+        }),
+      ).not.toThrow();
+    });
+
+    it('checks conditions against defaults', () => {
+      const defaultsConfig = {
+        auth: { type: 'string', default: 'basic' },
+        password: { type: 'secret', requiredIf: { auth: 'basic' } },
+        local: { type: 'boolean', alias: ['l'], default: true },
+        region: { type: 'string', requiredUnless: 'l' },
+      } as const;
+
+      expect(() =>
+        validateOptions({
+          values: {},
+          config: defaultsConfig,
+          validations: { required: true },
+        }),
+      ).toThrowError(
+        new OptionRequiredError('password', {
+          reason: 'when "auth" is "basic"',
+        }),
+      );
+      expect(() =>
+        validateOptions({
+          values: { auth: 'none' },
+          config: defaultsConfig,
+          validations: { required: true },
+        }),
+      ).not.toThrow();
+    });
+
+    it('checks conditions when getting values', async () => {
+      const getter = createOptionsGetter({
+        optionsConfig: config,
+        optionValues: { auth: 'basic', local: true },
+      });
+
+      expect(await getter.region()).toBeUndefined();
+
+      const client = new Client();
+      vi.spyOn(client, 'prompt').mockResolvedValue('');
+      const promptingGetter = createOptionsGetter({
+        optionsConfig: config,
+        optionValues: { auth: 'basic' },
+        client,
+      });
+
+      await expect(promptingGetter.password()).rejects.toThrowError(
+        'Option "password" is required when "auth" is "basic" or "digest"',
+      );
+      expect(client.prompt).toHaveBeenCalled();
+    });
+  });
+
+  describe('option groups', () => {
+    const config = {
+      file: { type: 'string' },
+      url: { type: 'string', alias: ['u'] },
+      stdin: { type: 'boolean' },
+    } as const;
+    const options = ['file', 'url', 'stdin'] as const;
+    const validate = (
+      values: OptionValues,
+      constraint: 'exactlyOne' | 'atLeastOne' | 'atMostOne' | 'allOrNone',
+    ) =>
+      validateOptions({
+        values,
+        config,
+        groups: { input: { options, constraint } },
+        validations: { groups: true },
+      });
+
+    it('enforces exactlyOne', () => {
+      expect(() => validate({}, 'exactlyOne')).toThrowError(
+        new OptionGroupRequiredError(['file', 'url', 'stdin'], true),
+      );
+      expect(() => validate({ file: 'a', u: 'b' }, 'exactlyOne')).toThrowError(
+        new OptionGroupConflictsError(
+          ['file', 'url'],
+          ['file', 'url', 'stdin'],
+        ),
+      );
+      expect(() => validate({ stdin: true }, 'exactlyOne')).not.toThrow();
+    });
+
+    it('enforces atLeastOne and atMostOne', () => {
+      expect(() => validate({}, 'atLeastOne')).toThrowError(
+        'At least one of options "file", "url", or "stdin" is required',
+      );
+      expect(() =>
+        validate({ file: 'a', url: 'b' }, 'atLeastOne'),
+      ).not.toThrow();
+
+      expect(() => validate({}, 'atMostOne')).not.toThrow();
+      expect(() =>
+        validate({ file: 'a', stdin: true }, 'atMostOne'),
+      ).toThrowError(OptionGroupConflictsError);
+    });
+
+    it('enforces allOrNone', () => {
+      expect(() => validate({}, 'allOrNone')).not.toThrow();
+      expect(() =>
+        validate({ file: 'a', url: 'b', stdin: true }, 'allOrNone'),
+      ).not.toThrow();
+      expect(() => validate({ file: 'a' }, 'allOrNone')).toThrowError(
+        new OptionGroupIncompleteError(
+          ['url', 'stdin'],
+          ['file', 'url', 'stdin'],
+        ),
+      );
+    });
+
+    it('enforces constraints when running commands', async () => {
+      const commands = {
+        fetch: {
+          options: config,
+          optionGroups: {
+            input: { options, constraint: 'exactlyOne' as const },
+          },
+          handler: () => {},
+        },
+      };
+
+      await expect(run({ command: 'fetch', commands })).rejects.toThrowError(
+        OptionGroupRequiredError,
+      );
+      await expect(
+        run({ command: 'fetch --file a --stdin', commands }),
+      ).rejects.toThrowError(OptionGroupConflictsError);
+    });
+
+    it('ignores turned off flags and counts env values', async () => {
+      const commands: CommandTree = {
+        fetch: command({
+          options: config,
+          optionGroups: {
+            input: { options, constraint: 'exactlyOne' },
+          },
+          handler: ({ end }) => end('fetched'),
+        }),
+      };
+
+      expect(() =>
+        validate({ file: 'a', stdin: false }, 'exactlyOne'),
+      ).not.toThrow();
+      expect(
+        await run({ command: 'fetch --file a --no-stdin', commands }),
+      ).toBe('fetched');
+
+      vi.stubEnv('APP_STDIN', 'false');
+      expect(
+        await run({ command: 'fetch --file a', commands, envPrefix: 'APP' }),
+      ).toBe('fetched');
+
+      vi.stubEnv('APP_URL', 'b');
+      await expect(
+        run({ command: 'fetch --file a', commands, envPrefix: 'APP' }),
+      ).rejects.toThrowError(OptionGroupConflictsError);
+      vi.unstubAllEnvs();
+    });
+  });
+
+  describe('coerce and validate', () => {
+    const port = {
+      type: 'number' as const,
+      alias: ['p'] as const,
+      default: 3000,
+      coerce: (value: number) => Math.round(value),
+      validate: (value: number) => value < 65536 || 'Must be below 65536',
+    };
+
+    it('coerces and validates values', () => {
+      expect(
+        coerceOptionValue({ value: 80.4, name: 'port', config: port }),
+      ).toBe(80);
+      expect(() =>
+        coerceOptionValue({
+          value: 70000,
+          name: 'port',
+          config: port,
+          source: { type: 'cli', flag: '-p' },
+        }),
+      ).toThrowError(
+        new OptionsError(
+          'Invalid value for option "port" (from flag -p): 70000\n\nMust be below 65536',
+        ),
+      );
+      expect(() =>
+        coerceOptionValue({
+          value: 'x',
+          name: 'name',
+          config: {
+            type: 'string',
+            coerce: () => {
+              throw new Error('Nope');
+            },
+          },
+        }),
+      ).toThrowError('Invalid value for option "name": x\n\nNope');
+    });
+
+    it('runs for defaults and options.set()', async () => {
+      const getter = createOptionsGetter({
+        optionsConfig: { port: { ...port, default: 8080.6 } },
+      });
+
+      expect(await getter.port!()).toBe(8081);
+      await expect(getter.set('port', 70000)).rejects.toThrowError(
+        OptionsError,
+      );
+      await getter.set('port', 443.2);
+      expect(await getter.port!()).toBe(443);
+    });
+
+    it('runs once for prompt answers', async () => {
+      const coerce = vi.fn(port.coerce);
+      const client = new Client();
+      vi.spyOn(client, 'prompt').mockImplementation(async (params) => {
+        const validate = params.validate as (value: number) => unknown;
+        expect(await validate(70000.2)).toBe('Must be below 65536');
+        expect(await validate(443.4)).toBe('Must be above 1024');
+        expect(await validate(8080.4)).toBe(true);
+        return 8080.4;
+      });
+      const getter = createOptionsGetter({
+        optionsConfig: { port: { ...port, default: undefined, coerce } },
+        client,
+      });
+
+      expect(
+        await getter.port!({
+          prompt: 'Enter a port',
+          validate: (value) => Number(value) > 1024 || 'Must be above 1024',
+        }),
+      ).toBe(8080);
+      expect(coerce).toHaveBeenCalledTimes(3);
+    });
+
+    it('runs for command line values', async () => {
+      const commands: CommandTree = {
+        serve: command({
+          options: { port },
+          handler: async ({ options, end }) => end(await options.port()),
+        }),
+      };
+
+      expect(await run({ command: 'serve -p 8000.2', commands })).toBe(8000);
+      await expect(
+        run({ command: 'serve -p 70000', commands }),
+      ).rejects.toThrowError('(from flag -p): 70000');
+    });
   });
 });
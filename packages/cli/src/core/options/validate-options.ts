@@ -1,11 +1,27 @@
-import { type CliErrorOptions, UsageError } from 'src/core/errors';
 import {
+  type CliErrorOptions,
+  UsageError,
+  formatSuggestions,
+} from 'src/core/errors';
+import {
+  type OptionCondition,
   type OptionConfig,
+  type OptionConfigPrimitiveType,
+  type OptionGroupsConfig,
   type OptionValues,
   type OptionsConfig,
+  formatOptionFlag,
   getOptionDisplayName,
   getOptionKeys,
+  normalizeOptionValue,
 } from 'src/core/options/options';
+import { getOptionTypeDefinition } from 'src/core/options/option-types';
+import {
+  type OptionSource,
+  type OptionSources,
+  formatOptionSource,
+} from 'src/core/options/option-source';
+import { findSimilar } from 'src/utils/find-similar';
 
 // Errors //
 
@@ -22,16 +38,36 @@ export class OptionsError extends UsageError {
   }
 }
 
+/**
+ * Options for the {@linkcode OptionRequiredError} constructor.
+ * @group Errors
+ */
+export interface OptionRequiredErrorOptions extends CliErrorOptions {
+  /**
+   * Why the option is required, e.g., `when "auth" is "basic"`.
+   */
+  reason?: string;
+}
+
 /**
  * An error indicating a required option is missing.
  * @group Errors
  */
 export class OptionRequiredError extends OptionsError {
-  constructor(optionName: string, options?: CliErrorOptions) {
-    super(`Option "${optionName}" is required`, {
+  /**
+   * Why the option is required, if it's conditionally required.
+   */
+  readonly reason: string | undefined;
+
+  constructor(
+    optionName: string,
+    { reason, ...options }: OptionRequiredErrorOptions = {},
+  ) {
+    super(`Option "${optionName}" is required${reason ? ` ${reason}` : ''}`, {
       name: 'OptionRequiredError',
       ...options,
     });
+    this.reason = reason;
   }
 }
 
@@ -69,22 +105,130 @@ export class OptionConflictsError extends OptionsError {
   }
 }
 
+/**
+ * An error indicating none of the options in a group that requires one were
+ * provided.
+ * @group Errors
+ */
+export class OptionGroupRequiredError extends OptionsError {
+  constructor(
+    optionNames: string[],
+    exactlyOne = false,
+    options?: CliErrorOptions,
+  ) {
+    super(
+      `${exactlyOne ? 'Exactly' : 'At least'} one of options ${formatOptionNames(optionNames)} is required`,
+      {
+        name: 'OptionGroupRequiredError',
+        ...options,
+      },
+    );
+  }
+}
+
+/**
+ * An error indicating more than one of the options in a group that allows at
+ * most one were provided.
+ * @group Errors
+ */
+export class OptionGroupConflictsError extends OptionsError {
+  constructor(
+    providedNames: string[],
+    optionNames: string[],
+    options?: CliErrorOptions,
+  ) {
+    super(
+      `Options ${formatOptionNames(providedNames, 'and')} conflict. Only one of options ${formatOptionNames(optionNames)} can be provided`,
+      {
+        name: 'OptionGroupConflictsError',
+        ...options,
+      },
+    );
+  }
+}
+
+/**
+ * An error indicating only some of the options in a group that requires all or
+ * none of them were provided.
+ * @group Errors
+ */
+export class OptionGroupIncompleteError extends OptionsError {
+  constructor(
+    missingNames: string[],
+    optionNames: string[],
+    options?: CliErrorOptions,
+  ) {
+    super(
+      `Options ${formatOptionNames(optionNames, 'and')} must be provided together. Missing ${formatOptionNames(missingNames, 'and')}`,
+      {
+        name: 'OptionGroupIncompleteError',
+        ...options,
+      },
+    );
+  }
+}
+
+/**
+ * An error indicating an unknown option was provided that closely matches a
+ * known option.
+ * @group Errors
+ */
+export class UnknownOptionError extends OptionsError {
+  /**
+   * The flags of similar options that were suggested to the user.
+   */
+  readonly suggestions: string[];
+
+  constructor(
+    optionName: string,
+    suggestions: string[],
+    options?: CliErrorOptions,
+  ) {
+    super(
+      `Unknown option "${formatOptionFlag(optionName)}"${formatSuggestions(suggestions)}`,
+      {
+        name: 'UnknownOptionError',
+        ...options,
+      },
+    );
+    this.suggestions = suggestions;
+  }
+}
+
 // Functions + Function Types //
 
 export interface ValidateOptionsParams {
   values: OptionValues;
   config: OptionsConfig;
+  /**
+   * The sources of the values, keyed by option key, to include in error
+   * messages.
+   */
+  sources?: OptionSources;
+  /**
+   * The option groups to validate the constraints of.
+   */
+  groups?: OptionGroupsConfig;
   validations: {
     type?: boolean;
     required?: boolean;
     conflicts?: boolean;
     requires?: boolean;
+    /**
+     * Throw if an option that isn't in the config closely matches one that is.
+     * Unknown options without a close match are ignored.
+     */
+    unknown?: boolean;
+    /**
+     * Enforce the constraints of the option groups.
+     */
+    groups?: boolean;
   };
 }
 
 /**
  * Validates the options for a command by checking for required options,
- * conflicts, and dependencies.
+ * conflicts, dependencies, and option group constraints.
  *
  * @param options - The options to be validated.
  * @param optionsConfig - The options config.
@@ -96,6 +240,8 @@ export interface ValidateOptionsParams {
 export function validateOptions({
   config,
   values,
+  sources = {},
+  groups = {},
   validations,
 }: ValidateOptionsParams) {
   const {
@@ -103,6 +249,8 @@ export function validateOptions({
     required: validateRequired = false,
     conflicts: validateConflicts = false,
     requires: validateRequires = false,
+    unknown: validateUnknown = false,
+    groups: validateGroups = false,
   } = validations;
 
   // Expand the config object to include all keys for each option
@@ -137,7 +285,11 @@ export function validateOptions({
   // Populate expanded values and check option types
   for (const [valueKey, value] of valueEntries) {
     const valueConfig = expandedConfig[valueKey];
-    if (!valueConfig) continue;
+
+    if (!valueConfig) {
+      if (validateUnknown) validateUnknownOption(valueKey, config);
+      continue;
+    }
 
     // Validate type
     if (validateType) {
@@ -145,6 +297,9 @@ export function validateOptions({
         value,
         name: valueKey,
         config: valueConfig,
+        source: getOptionKeys(valueKey, valueConfig)
+          .map((key) => sources[key])
+          .find(Boolean),
       });
     }
 
@@ -154,6 +309,69 @@ export function validateOptions({
     }
   }
 
+  // Validate conditionally required options
+  if (validateRequired) {
+    for (const [configKey, optionConfig] of Object.entries(config)) {
+      if (configKey in expandedValues) continue;
+      // Fall back to defaults like the options getter does.
+      const reason = getOptionRequiredReason(optionConfig, (key) => {
+        const value = expandedValues[key];
+        if (value !== undefined) return value;
+        return normalizeOptionValue(undefined, expandedConfig[key]);
+      });
+      if (reason) {
+        const optionName = getOptionDisplayName(configKey, optionConfig);
+        throw new OptionRequiredError(optionName, { reason });
+      }
+    }
+  }
+
+  // Validate option group constraints
+  if (validateGroups) {
+    for (const { options, constraint } of Object.values(groups)) {
+      if (!constraint) continue;
+
+      const optionNames = options.map((key) =>
+        getOptionDisplayName(key, config[key]),
+      );
+      // Turned off flags, e.g., `--no-stdin`, don't count as provided.
+      const providedNames = options
+        .filter((key) => {
+          const value = expandedValues[key];
+          return value !== undefined && value !== false;
+        })
+        .map((key) => getOptionDisplayName(key, config[key]));
+
+      if (
+        (constraint === 'exactlyOne' || constraint === 'atLeastOne') &&
+        !providedNames.length
+      ) {
+        throw new OptionGroupRequiredError(
+          optionNames,
+          constraint === 'exactlyOne',
+        );
+      }
+
+      if (
+        (constraint === 'exactlyOne' || constraint === 'atMostOne') &&
+        providedNames.length > 1
+      ) {
+        throw new OptionGroupConflictsError(providedNames, optionNames);
+      }
+
+      if (
+        constraint === 'allOrNone' &&
+        providedNames.length &&
+        providedNames.length < options.length
+      ) {
+        throw new OptionGroupIncompleteError(
+          optionNames.filter((name) => !providedNames.includes(name)),
+          optionNames,
+        );
+      }
+    }
+  }
+
   // Skip inter-option validation if disabled
   if (!validateConflicts && !validateRequires) return;
 
@@ -211,6 +429,7 @@ export function validateOptionType({
   value,
   name,
   config,
+  source,
   throws = true,
 }: {
   /**
@@ -228,6 +447,11 @@ export function validateOptionType({
    */
   config: OptionConfig;
 
+  /**
+   * Where the value came from, to include in the error message.
+   */
+  source?: OptionSource;
+
   /**
    * Whether to throw an error if the value is invalid.
    *
@@ -270,19 +494,36 @@ export function validateOptionType({
     isValid = !!isValidValueType(value, config);
   }
 
+  // Include the message from the custom type's validator, if any
+  const definition = getOptionTypeDefinition(config);
+  if (!isValid && definition?.validate) {
+    for (const v of getScalarValues(value, config)) {
+      const validation = definition.validate(v as never);
+      if (typeof validation === 'string') {
+        details.push(validation);
+        break;
+      }
+    }
+  }
+
   if (!isValid && throws) {
     if (choices) {
       details.push(`Choices: ${choices.join(', ')}`);
     }
 
-    let errorString = `Invalid value for ${type} option "${name}": ${value}`;
+    const typeName = config.customType || type;
+    let errorString = `Invalid value for ${typeName} option "${name}"${
+      source ? ` (from ${formatOptionSource(source)})` : ''
+    }: ${formatValue(value)}`;
 
     if (details.length) {
       errorString += `\n\n${details.join('\n')}\n`;
     }
 
     const optionTypeString =
-      !nargs || nargs < 2 ? type : `${new Array(nargs).fill(type).join(', ')}`;
+      !nargs || nargs < 2
+        ? typeName
+        : `${new Array(nargs).fill(typeName).join(', ')}`;
     errorString += `Type: ${optionTypeString}\n`;
 
     throw new OptionsError(errorString);
@@ -291,12 +532,180 @@ export function validateOptionType({
   return isValid;
 }
 
+/**
+ * Get the reason an option is conditionally required based on its `requiredIf`
+ * and `requiredUnless` conditions and the values of other options.
+ *
+ * @param config - The option config.
+ * @param getValue - A function to get the current value of another option.
+ * @returns The reason, e.g., `when "auth" is "basic"`, or `undefined` if the
+ * option isn't conditionally required.
+ *
+ * @group Options
+ */
+export function getOptionRequiredReason(
+  config: OptionConfig,
+  getValue: (optionName: string) => unknown,
+): string | undefined {
+  const { requiredIf, requiredUnless } = config;
+
+  if (requiredIf && isConditionMet(requiredIf, getValue)) {
+    return `when ${formatCondition(requiredIf)}`;
+  }
+
+  if (requiredUnless && !isConditionMet(requiredUnless, getValue)) {
+    return `unless ${formatCondition(requiredUnless)}`;
+  }
+}
+
+/**
+ * Run an option value through the option's own `coerce` and `validate`
+ * functions.
+ *
+ * @returns The coerced value.
+ *
+ * @throws {OptionsError} Throws an error if `coerce` throws or `validate`
+ * rejects the value.
+ *
+ * @group Options
+ */
+export function coerceOptionValue<T>({
+  value,
+  name,
+  config,
+  source,
+}: {
+  /**
+   * The option value to coerce and validate.
+   */
+  value: T;
+
+  /**
+   * The name of the option.
+   */
+  name: string;
+
+  /**
+   * The option config.
+   */
+  config: OptionConfig;
+
+  /**
+   * Where the value came from, to include in the error message.
+   */
+  source?: OptionSource;
+}): T {
+  if (value === undefined) return value;
+
+  const formatMessage = (details?: string) =>
+    formatInvalidValueMessage(name, value, source, details);
+
+  if (config.coerce) {
+    try {
+      value = config.coerce(value as never) as T;
+    } catch (error) {
+      throw new OptionsError(
+        formatMessage(error instanceof Error ? error.message : String(error)),
+        { cause: error },
+      );
+    }
+  }
+
+  const validation = config.validate?.(value as never) ?? true;
+  if (validation !== true) {
+    throw new OptionsError(
+      formatMessage(typeof validation === 'string' ? validation : undefined),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Normalize a raw option value read from a source other than the command line,
+ * e.g., an environment variable or a config file. The option's default isn't
+ * applied.
+ *
+ * @returns The normalized value.
+ *
+ * @throws {OptionsError} Throws an error naming the option and the source if
+ * the value can't be normalized, e.g., if a record entry isn't a `KEY=VALUE`
+ * pair.
+ *
+ * @group Options
+ */
+export function normalizeSourceOptionValue<T extends OptionConfig>({
+  value,
+  name,
+  config,
+  source,
+}: {
+  /**
+   * The raw option value.
+   */
+  value: unknown;
+
+  /**
+   * The name of the option.
+   */
+  name: string;
+
+  /**
+   * The option config.
+   */
+  config: T;
+
+  /**
+   * Where the value came from, to include in the error message.
+   */
+  source: OptionSource;
+}): OptionConfigPrimitiveType<T> | undefined {
+  try {
+    return normalizeOptionValue<T>(value, { ...config, default: undefined });
+  } catch (error) {
+    throw new OptionsError(
+      formatInvalidValueMessage(
+        name,
+        value,
+        source,
+        error instanceof Error ? error.message : String(error),
+      ),
+      { cause: error },
+    );
+  }
+}
+
 // Internal //
 
+function formatInvalidValueMessage(
+  name: string,
+  value: unknown,
+  source: OptionSource | undefined,
+  details: string | undefined,
+) {
+  return `Invalid value for option "${name}"${
+    source ? ` (from ${formatOptionSource(source)})` : ''
+  }: ${formatValue(value)}${details ? `\n\n${details}` : ''}`;
+}
+
 function isValidValueType(value: unknown, config: OptionConfig) {
   if (value === undefined) return;
   const { choices, type } = config;
 
+  // Custom types are validated by their registered validator instead of the
+  // base type.
+  const definition = getOptionTypeDefinition(config);
+  if (definition) {
+    if (type === 'record' && !isRecord(value)) return false;
+    const values = getScalarValues(value, config);
+    return (
+      values.every(
+        (v) => (definition.validate?.(v as never) ?? true) === true,
+      ) &&
+      (!choices || values.every((v) => (choices as unknown[]).includes(v)))
+    );
+  }
+
   switch (type) {
     case 'number':
       return typeof value === 'number' && !Number.isNaN(value);
@@ -304,6 +713,9 @@ function isValidValueType(value: unknown, config: OptionConfig) {
     case 'boolean':
       return typeof value === 'boolean';
 
+    case 'count':
+      return Number.isInteger(value) && (value as number) >= 0;
+
     case 'array':
       if (typeof value === 'string') {
         value = value.split(',').length > 0;
@@ -314,6 +726,12 @@ function isValidValueType(value: unknown, config: OptionConfig) {
         (!choices || value.every((v) => choices.includes(v)))
       );
 
+    case 'record':
+      return (
+        isRecord(value) &&
+        Object.values(value).every((v) => typeof v === 'string')
+      );
+
     default:
       return (
         typeof value === 'string' &&
@@ -322,3 +740,95 @@ function isValidValueType(value: unknown, config: OptionConfig) {
       );
   }
 }
+
+/**
+ * Throws an {@linkcode UnknownOptionError} if an unknown option closely matches
+ * any keys or aliases in the config.
+ */
+function validateUnknownOption(optionName: string, config: OptionsConfig) {
+  const knownNames = Object.entries(config).flatMap(([key, { alias = [] }]) => [
+    key,
+    ...alias,
+  ]);
+
+  // Scale the threshold with the length of the name to avoid suggesting
+  // unrelated short flags, e.g., `-x` -> `-v`.
+  const suggestions = findSimilar(optionName, knownNames, {
+    threshold: Math.min(2, Math.floor(optionName.length / 3)),
+  });
+
+  if (suggestions.length) {
+    throw new UnknownOptionError(optionName, suggestions.map(formatOptionFlag));
+  }
+}
+
+/**
+ * Get the individual values of an option value, e.g., the items of an array or
+ * the values of a record.
+ */
+function getScalarValues(value: unknown, config: OptionConfig): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (config.type === 'record' && isRecord(value)) return Object.values(value);
+  return [value];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Format an option value for error messages, e.g., `KEY=VALUE` pairs for
+ * records.
+ */
+function formatValue(value: unknown): string {
+  if (!isRecord(value)) return String(value);
+  return Object.entries(value)
+    .map(([key, v]) => `${key}=${v}`)
+    .join(',');
+}
+
+/**
+ * Format a list of option names for error messages, e.g., `"file", "url", or
+ * "stdin"`.
+ */
+function formatOptionNames(names: string[], conjunction = 'or'): string {
+  const quoted = names.map((name) => `"${name}"`);
+  if (quoted.length < 3) return quoted.join(` ${conjunction} `);
+  return `${quoted.slice(0, -1).join(', ')}, ${conjunction} ${quoted.at(-1)}`;
+}
+
+function isConditionMet(
+  condition: OptionCondition,
+  getValue: (optionName: string) => unknown,
+): boolean {
+  if (typeof condition === 'string') {
+    const value = getValue(condition);
+    return value !== undefined && value !== false;
+  }
+
+  return Object.entries(condition).every(([optionName, expected]) => {
+    const value = getValue(optionName);
+    return Array.isArray(expected)
+      ? (expected as unknown[]).includes(value)
+      : expected === value;
+  });
+}
+
+/**
+ * Format a condition for error messages, e.g., `"auth" is "basic"` or
+ * `"local" is set`.
+ */
+function formatCondition(condition: OptionCondition): string {
+  if (typeof condition === 'string') return `"${condition}" is set`;
+
+  return Object.entries(condition)
+    .map(([optionName, expected]) => {
+      const values: unknown[] = Array.isArray(expected) ? expected : [expected];
+      return `"${optionName}" is ${values
+        .map((value) =>
+          typeof value === 'string' ? `"${value}"` : String(value),
+        )
+        .join(' or ')}`;
+    })
+    .join(' and ');
+}
@@ -0,0 +1,83 @@
+// Must be imported first
+import {
+  mockCommandModules,
+  unmockAllCommandModules,
+} from 'src/utils/testing/command-modules';
+
+import { Context } from 'src/core/context';
+import { getHelp } from 'src/core/help';
+import { ParamError, coerceParam } from 'src/core/params';
+import { resolveCommand } from 'src/core/resolve';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('params', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    unmockAllCommandModules();
+  });
+
+  it('coerces and validates param values', () => {
+    expect(coerceParam('id', '42', undefined)).toBe('42');
+    expect(coerceParam('id', '42', { type: 'number' })).toBe(42);
+    expect(coerceParam('ids', ['1', '2'], { type: 'number' })).toEqual([1, 2]);
+    expect(
+      coerceParam('date', '2024-01-01', { type: (value) => new Date(value) }),
+    ).toEqual(new Date('2024-01-01'));
+
+    expect(() => coerceParam('id', 'abc', { type: 'number' })).toThrowError(
+      ParamError,
+    );
+    expect(() =>
+      coerceParam('env', 'qa', { choices: ['dev', 'prod'] }),
+    ).toThrowError('Choices: dev, prod');
+    expect(() =>
+      coerceParam('id', '-1', {
+        type: 'number',
+        validate: (id) => id > 0 || 'IDs must be positive',
+      }),
+    ).toThrowError('IDs must be positive');
+  });
+
+  it('coerces params during resolution', async () => {
+    mockCommandModules({
+      'commands/[id].js': {
+        params: { id: { type: 'number' } },
+        handler: () => {},
+      },
+    });
+
+    expect(
+      await resolveCommand({ commandString: '42', commandsDir: 'commands' }),
+    ).toMatchObject({ params: { id: 42 } });
+
+    await expect(
+      resolveCommand({ commandString: 'abc', commandsDir: 'commands' }),
+    ).rejects.toThrowError(ParamError);
+  });
+
+  it('lists params in help', async () => {
+    mockCommandModules({
+      'commands/[env].js': {
+        params: {
+          env: {
+            description: 'The environment to deploy to',
+            choices: ['dev', 'prod'],
+          },
+        },
+        handler: () => {},
+      },
+    });
+
+    const context = new Context({
+      commandString: 'dev',
+      commandsDir: 'commands',
+    });
+    await context.prepare();
+
+    const { usage, argumentsTitle, helpText } = await getHelp({ context });
+
+    expect(usage).toContain('<env:dev|prod>');
+    expect(argumentsTitle).toBe('ARGUMENTS:');
+    expect(helpText).toContain('The environment to deploy to');
+  });
+});
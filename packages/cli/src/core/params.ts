@@ -0,0 +1,194 @@
+import { type CliErrorOptions, UsageError } from 'src/core/errors';
+import type { MaybeReadonly } from 'src/utils/types';
+
+// Types //
+
+/**
+ * The type of a route param. Either a built-in type name or a custom function
+ * that converts the raw string value into the desired type.
+ *
+ * @group Params
+ */
+export type ParamType = 'string' | 'number' | ((value: string) => unknown);
+
+/**
+ * The configuration for a route param, e.g., the `id` in `[id].ts`.
+ *
+ * @group Params
+ */
+export interface ParamConfig {
+  /**
+   * The type to coerce the param's value to. Spread params (e.g.,
+   * `[...ids].ts`) coerce each of their values.
+   * @default 'string'
+   */
+  type?: ParamType;
+
+  /**
+   * A description of the param that will be displayed in the help menu.
+   */
+  description?: string;
+
+  /**
+   * The valid choices for the param.
+   */
+  choices?: MaybeReadonly<string[]>;
+
+  /**
+   * A function to validate the coerced value. Return `false` or an error
+   * message if the value is invalid.
+   */
+  validate?: (value: any) => boolean | string;
+}
+
+/**
+ * The configuration for a command's route params, keyed by param name.
+ *
+ * @example
+ * ```ts
+ * // commands/users/[id].ts
+ * export default command({
+ *   params: {
+ *     id: {
+ *       type: 'number',
+ *       description: 'The ID of the user',
+ *       validate: (id) => id > 0 || 'IDs must be positive',
+ *     },
+ *   },
+ *   handler: ({ params }) => {},
+ * });
+ * ```
+ *
+ * @group Params
+ */
+export type ParamsConfig = Record<string, ParamConfig>;
+
+// Errors //
+
+/**
+ * An error indicating a route param has an invalid value.
+ * @group Errors
+ */
+export class ParamError extends UsageError {
+  constructor(
+    paramName: string,
+    value: unknown,
+    details?: string,
+    options?: CliErrorOptions,
+  ) {
+    super(
+      `Invalid value for param "${paramName}": ${value}${
+        details ? `\n\n${details}` : ''
+      }`,
+      {
+        name: 'ParamError',
+        ...options,
+      },
+    );
+  }
+}
+
+// Functions //
+
+/**
+ * Coerce and validate the value of a route param using its config.
+ *
+ * @param paramName - The name of the param.
+ * @param value - The raw value of the param. Optional params that didn't match
+ * a token are `undefined` and skip coercion.
+ * @param config - The param's config.
+ * @returns The coerced value.
+ *
+ * @throws {ParamError} If the value is invalid.
+ *
+ * @group Params
+ */
+export function coerceParam(
+  paramName: string,
+  value: string | string[] | undefined,
+  config: ParamConfig | undefined,
+): unknown {
+  if (!config || value === undefined) return value;
+
+  const coerced = Array.isArray(value)
+    ? value.map((item) => coerceParamValue(paramName, item, config))
+    : coerceParamValue(paramName, value, config);
+
+  const validation = config.validate?.(coerced) ?? true;
+  if (validation !== true) {
+    throw new ParamError(
+      paramName,
+      value,
+      typeof validation === 'string' ? validation : undefined,
+    );
+  }
+
+  return coerced;
+}
+
+/**
+ * Get a short hint for a param's type to display in usage strings, e.g.,
+ * `number` or `dev|prod`.
+ *
+ * @group Params
+ */
+export function getParamTypeHint(
+  config: ParamConfig | undefined,
+): string | undefined {
+  if (config?.choices) return config.choices.join('|');
+  if (typeof config?.type === 'string') return config.type;
+}
+
+/**
+ * Coerce a raw string value to a param or argument type, checking it against
+ * the valid choices, if any.
+ *
+ * @param value - The raw value.
+ * @param config - The type and choices to coerce the value with.
+ * @returns The coerced value.
+ *
+ * @throws {Error} If the value is invalid, with a message describing why.
+ *
+ * @group Params
+ */
+export function coerceValue(
+  value: string,
+  { type = 'string', choices }: Pick<ParamConfig, 'type' | 'choices'>,
+): unknown {
+  if (choices && !choices.includes(value)) {
+    throw new Error(`Choices: ${choices.join(', ')}`);
+  }
+
+  switch (type) {
+    case 'string':
+      return value;
+    case 'number': {
+      const number = Number(value);
+      if (!value.trim() || Number.isNaN(number)) {
+        throw new Error('Expected a number.');
+      }
+      return number;
+    }
+    default:
+      return type(value);
+  }
+}
+
+// Internal //
+
+function coerceParamValue(
+  paramName: string,
+  value: string,
+  config: ParamConfig,
+): unknown {
+  try {
+    return coerceValue(value, config);
+  } catch (error) {
+    throw new ParamError(
+      paramName,
+      value,
+      error instanceof Error ? error.message : String(error),
+      { cause: error },
+    );
+  }
+}
@@ -184,4 +184,70 @@ describe('parse', () => {
       },
     } as ParsedCommand);
   });
+
+  it('parses negated boolean options', async () => {
+    const optionsConfig = {
+      color: { type: 'boolean' as const, alias: ['c'] },
+      verbose: { type: 'boolean' as const, negatable: 'quiet' },
+      force: { type: 'boolean' as const, negatable: false },
+    };
+
+    expect(
+      await parseCommand('foo --no-color --quiet', optionsConfig),
+    ).toMatchObject({
+      tokens: ['foo'],
+      options: { color: false, c: false, verbose: false },
+    } as ParsedCommand);
+
+    expect(
+      (await parseCommand('foo --no-force', optionsConfig)).options.force,
+    ).toBeUndefined();
+
+    expect(() => parseCommand('foo -c --no-color', optionsConfig)).toThrowError(
+      'Option "color" conflicts with option "no-color"',
+    );
+  });
+
+  it('parses count options', async () => {
+    const optionsConfig = {
+      verbose: { type: 'count' as const, alias: ['v'] },
+      debug: { type: 'count' as const },
+    };
+
+    expect(await parseCommand('foo -vvv', optionsConfig)).toMatchObject({
+      tokens: ['foo'],
+      options: { verbose: 3, v: 3 },
+    } as ParsedCommand);
+
+    expect(
+      (await parseCommand('foo -v --verbose', optionsConfig)).options.verbose,
+    ).toBe(2);
+
+    expect(
+      (await parseCommand('foo -v', optionsConfig)).options,
+    ).not.toHaveProperty('debug');
+  });
+
+  it('parses record options', async () => {
+    const optionsConfig = {
+      define: { type: 'record' as const, alias: ['d'] },
+    };
+
+    expect(
+      await parseCommand(
+        'build --define A=1 -d B=x,y --define C=a=b src',
+        optionsConfig,
+      ),
+    ).toMatchObject({
+      tokens: ['build', 'src'],
+      options: {
+        define: { A: '1', B: 'x,y', C: 'a=b' },
+        d: { A: '1', B: 'x,y', C: 'a=b' },
+      },
+    } as ParsedCommand);
+
+    expect(() => parseCommand('build --define A', optionsConfig)).toThrowError(
+      'Invalid value for record option "define": A\n\nExpected a KEY=VALUE pair, received "A".',
+    );
+  });
 });
@@ -1,5 +1,18 @@
-import type { OptionValues, OptionsConfig } from 'src/core/options/options';
+import { getOptionTypeDefinition } from 'src/core/options/option-types';
+import {
+  type OptionValues,
+  type OptionsConfig,
+  getOptionKeys,
+  getOptionNegations,
+  normalizeOptionValue,
+} from 'src/core/options/options';
 import { validateOptionsConfig } from 'src/core/options/validate-option-config';
+import {
+  OptionConflictsError,
+  OptionsError,
+  validateOptionType,
+} from 'src/core/options/validate-options';
+import { camelCase } from 'src/utils/camel-case';
 import type { MaybePromise } from 'src/utils/types';
 import parse from 'yargs-parser';
 
@@ -53,14 +66,18 @@ export function parseCommand(
     alias: Record<string, string[]>;
     array: string[];
     boolean: string[];
+    count: string[];
     number: string[];
+    record: string[];
     string: string[];
     narg: Record<string, number>;
   } = {
     alias: {},
     array: [],
     boolean: [],
+    count: [],
     number: [],
+    record: [],
     string: [],
     narg: {},
   };
@@ -79,11 +96,19 @@ export function parseCommand(
         parseOptions.array.push(key);
         break;
       case 'boolean':
-        parseOptions.boolean.push(key);
+        parseOptions.boolean.push(key, ...getOptionNegations(key, option));
+        break;
+      case 'count':
+        parseOptions.count.push(key);
         break;
       case 'number':
         parseOptions.number.push(key);
         break;
+      case 'record':
+        // Parsed as strings here and collected from every flag below
+        parseOptions.record.push(key);
+        parseOptions.string.push(key);
+        break;
       default:
         parseOptions.string.push(key);
         break;
@@ -91,11 +116,14 @@ export function parseCommand(
   }
 
   // Parse the command string with yargs-parser
+  const { record, ...yargsOptions } = parseOptions;
   const { _, ...options } = parse(commandString, {
-    ...parseOptions,
+    ...yargsOptions,
     configuration: {
       'duplicate-arguments-array': false,
       'unknown-options-as-args': true,
+      // Negations are handled below for options that are negatable
+      'boolean-negation': false,
       'parse-numbers': false,
     },
   });
@@ -112,6 +140,35 @@ export function parseCommand(
     return true;
   });
 
+  // Omit counts of flags that weren't provided so they can fall back to other
+  // sources
+  for (const key of parseOptions.count) {
+    if (options[key] !== 0) continue;
+    for (const k of getOptionKeys(key, optionsConfig[key]!)) delete options[k];
+  }
+
+  // Turn off negated boolean options
+  for (const [key, option] of Object.entries(optionsConfig)) {
+    const negations = getOptionNegations(key, option);
+    const negation = negations.find((name) => options[name] !== undefined);
+    const isNegated = negation && options[negation] === true;
+
+    for (const name of negations) {
+      delete options[name];
+      delete options[camelCase(name)];
+    }
+
+    if (!negation || !isNegated) continue;
+
+    const optionKeys = getOptionKeys(key, option);
+    const setKey = optionKeys.find((k) => options[k] !== undefined);
+    if (setKey) {
+      throw new OptionConflictsError(setKey, negation);
+    }
+
+    for (const k of optionKeys) options[k] = false;
+  }
+
   // Split array options by commas
   for (const [key, value] of Object.entries(options)) {
     if (Array.isArray(value)) {
@@ -119,6 +176,63 @@ export function parseCommand(
     }
   }
 
+  // Collect the entries of record options from every occurrence of their flags,
+  // e.g., `--define A=1 --define B=2`, since only the last value of repeated
+  // flags is kept above
+  if (record.length) {
+    const entries = parse(commandString, {
+      alias: Object.fromEntries(
+        record.map((key) => [key, parseOptions.alias[key] || []]),
+      ),
+      array: record,
+      narg: Object.fromEntries(record.map((key) => [key, 1])),
+      configuration: {
+        'duplicate-arguments-array': true,
+        'flatten-duplicate-arrays': true,
+        'unknown-options-as-args': true,
+        'parse-numbers': false,
+      },
+    });
+
+    for (const key of record) {
+      if (entries[key] === undefined) continue;
+      for (const k of getOptionKeys(key, optionsConfig[key]!)) {
+        if (k in options) options[k] = entries[key];
+      }
+    }
+  }
+
+  // Parse and validate the values of record options and options with
+  // registered custom types
+  for (const [key, option] of Object.entries(optionsConfig)) {
+    const definition = getOptionTypeDefinition(option);
+    if (!definition && option.type !== 'record') continue;
+
+    const optionKeys = getOptionKeys(key, option);
+    const valueKey = optionKeys.find((k) => options[k] !== undefined);
+    if (!valueKey) continue;
+
+    let value: unknown = options[valueKey];
+    if (definition?.parse || option.type === 'record') {
+      try {
+        value = normalizeOptionValue(value, option);
+      } catch (error) {
+        throw new OptionsError(
+          `Invalid value for ${option.customType || option.type} option "${valueKey}": ${value}\n\n${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          { cause: error },
+        );
+      }
+    }
+
+    validateOptionType({ value, name: valueKey, config: option });
+
+    for (const k of optionKeys) {
+      if (k in options) options[k] = value;
+    }
+  }
+
   return { tokens, options };
 }
 
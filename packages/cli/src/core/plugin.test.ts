@@ -0,0 +1,127 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CommandConflictError } from 'src/core/command-roots';
+import { Context } from 'src/core/context';
+import { getHelp } from 'src/core/help';
+import { createPluginCommandSource, plugin } from 'src/core/plugin';
+import { run } from 'src/core/run';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('plugin commands', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'gud-cli-plugin-'));
+    mkdirSync(join(tempDir, 'list'));
+    writeFileSync(
+      join(tempDir, 'list', 'all.mjs'),
+      'export default { handler: ({ end }) => end("all") };',
+    );
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('mounts each namespace under the commands directory', async () => {
+    const doctorCommand = { handler: () => {} };
+    const source = createPluginCommandSource(
+      { doctor: doctorCommand, plugins: tempDir },
+      'commands',
+    );
+
+    expect(source.readDir('commands')).toEqual(['doctor', 'plugins']);
+    expect(source.readDir('commands/plugins')).toEqual(['list']);
+    expect(source.isDirectory('commands/plugins/list')).toBe(true);
+    expect(await source.importCommand('commands/doctor')).toEqual({
+      command: doctorCommand,
+      commandPath: 'commands/doctor',
+    });
+    expect(
+      await source.importCommand('commands/plugins/list/all'),
+    ).toMatchObject({
+      commandPath: join(tempDir, 'list', 'all.mjs'),
+    });
+  });
+
+  it('resolves plugin commands in run()', async () => {
+    const doctorHandler = vi.fn();
+    const commandsPlugin = plugin({
+      name: 'commands-plugin',
+      commands: {
+        doctor: { handler: doctorHandler },
+        plugins: tempDir,
+      },
+    });
+
+    await run({
+      command: 'doctor',
+      commands: {},
+      plugins: [commandsPlugin],
+    });
+    const result = await run({
+      command: 'plugins list all',
+      commands: {},
+      plugins: [commandsPlugin],
+    });
+
+    expect(doctorHandler).toHaveBeenCalled();
+    expect(result).toBe('all');
+  });
+
+  it('shows the plugin as the origin in help', async () => {
+    const context = new Context({
+      commandString: '',
+      commandsDir: 'commands',
+      commands: {
+        build: { description: 'Build it', handler: () => {} },
+      },
+      plugins: [
+        plugin({
+          name: 'doctor-plugin',
+          commands: {
+            doctor: { description: 'Check it', handler: () => {} },
+          },
+        }),
+      ],
+    });
+
+    const { helpText } = await getHelp({ context });
+
+    expect(helpText).toMatch(/build\s+Build it\n/);
+    expect(helpText).toMatch(/doctor\s+Check it \(from doctor-plugin\)/);
+  });
+
+  it('conflicts with existing commands unless overriding', async () => {
+    const commands = { doctor: { handler: () => {} } };
+
+    await expect(
+      run({
+        command: 'doctor',
+        commands,
+        plugins: [
+          plugin({
+            name: 'doctor-plugin',
+            commands: { doctor: { handler: () => {} } },
+          }),
+        ],
+      }),
+    ).rejects.toThrowError(CommandConflictError);
+
+    const overrideHandler = vi.fn();
+    await run({
+      command: 'doctor',
+      commands,
+      plugins: [
+        plugin({
+          name: 'doctor-plugin',
+          commands: {
+            doctor: { override: true, handler: overrideHandler },
+          },
+        }),
+      ],
+    });
+    expect(overrideHandler).toHaveBeenCalled();
+  });
+});
@@ -1,3 +1,14 @@
+import { join, relative, sep } from 'node:path';
+import {
+  type CommandSource,
+  type FsCommandSourceOptions,
+  createFsCommandSource,
+} from 'src/core/command-source';
+import {
+  type CommandTree,
+  type CommandTreeModule,
+  createCommandTreeSource,
+} from 'src/core/command-tree';
 import { CliError, type CliErrorOptions } from 'src/core/errors';
 import type { AnyObject, MaybePromise } from 'src/utils/types';
 import type { Context } from './context';
@@ -8,6 +19,13 @@ import type { Context } from './context';
  * @group Plugin
  */
 export type Plugin<TMeta extends AnyObject = AnyObject> = PluginInfo<TMeta> & {
+  /**
+   * Commands contributed by the plugin, keyed by the namespace they're added
+   * under. They resolve, show in help, and appear in command menus like the
+   * commands in the commands directory.
+   */
+  commands?: PluginCommands;
+
   /**
    * Initialize the plugin.
    *
@@ -16,6 +34,29 @@ export type Plugin<TMeta extends AnyObject = AnyObject> = PluginInfo<TMeta> & {
   init?: (context: Context) => MaybePromise<void>;
 };
 
+/**
+ * The commands contributed by a plugin, keyed by namespace. Each namespace is
+ * either a command module, a {@linkcode CommandTree}, or a path to a commands
+ * directory.
+ *
+ * @example
+ * ```ts
+ * plugin({
+ *   name: 'doctor',
+ *   commands: {
+ *     doctor: doctorCommand,
+ *     plugins: join(import.meta.dirname, 'commands'),
+ *   },
+ * });
+ * ```
+ *
+ * @group Plugin
+ */
+export type PluginCommands = Record<
+  string,
+  CommandTreeModule | CommandTree | string
+>;
+
 /**
  * Information about a plugin.
  *
@@ -53,6 +94,68 @@ export function plugin<TMeta extends AnyObject = AnyObject>(
   return plugin;
 }
 
+/**
+ * Create a {@linkcode CommandSource} for the commands contributed by a plugin,
+ * mounting each namespace under `commandsDir`.
+ *
+ * @param commands - The plugin's commands.
+ * @param commandsDir - The virtual path to mount the namespaces under.
+ * @param options - Options for reading namespaces that are commands
+ * directories.
+ *
+ * @group Plugin
+ */
+export function createPluginCommandSource(
+  commands: PluginCommands,
+  commandsDir: string,
+  options?: FsCommandSourceOptions,
+): CommandSource {
+  const fsSource = createFsCommandSource(options);
+
+  // Directory namespaces are empty trees so they're listed with the others.
+  const treeSource = createCommandTreeSource(
+    Object.fromEntries(
+      Object.entries(commands).map(([namespace, entry]) => [
+        namespace,
+        typeof entry === 'string' ? {} : entry,
+      ]),
+    ),
+    commandsDir,
+  );
+
+  // Get the path in a namespace's commands directory, if it has one.
+  function getDirPath(path: string): string | undefined {
+    const [namespace, ...segments] = relative(commandsDir, path).split(sep);
+    const dir = namespace ? commands[namespace] : undefined;
+    if (typeof dir === 'string') return join(dir, ...segments);
+  }
+
+  return {
+    readDir: (path) => {
+      const dirPath = getDirPath(path);
+      return dirPath ? fsSource.readDir(dirPath) : treeSource.readDir(path);
+    },
+    isDirectory: (path) => {
+      const dirPath = getDirPath(path);
+      return dirPath
+        ? fsSource.isDirectory(dirPath)
+        : treeSource.isDirectory(path);
+    },
+    importCommand: (path) => {
+      const dirPath = getDirPath(path);
+      return dirPath
+        ? fsSource.importCommand(dirPath)
+        : treeSource.importCommand(path);
+    },
+    readAliases: (path) => {
+      const dirPath = getDirPath(path);
+      return dirPath
+        ? fsSource.readAliases?.(dirPath)
+        : treeSource.readAliases?.(path);
+    },
+  };
+}
+
 /**
  * An error that can be thrown by a plugin.
  *
@@ -4,6 +4,8 @@ import {
   unmockAllCommandModules,
 } from 'src/utils/testing/command-modules';
 
+import { type CommandSource, fsCommandSource } from 'src/core/command-source';
+import { NotFoundError } from 'src/core/errors';
 import { type ResolvedCommand, resolveCommand } from 'src/core/resolve';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -119,4 +121,251 @@ describe('resolve', () => {
       subcommandsDir: 'commands/[qux]/[...quux]',
     } as ResolvedCommand);
   });
+
+  it('resolves aliased commands before param commands', async () => {
+    const commandModules = {
+      'commands/list.js': {
+        aliases: ['ls'],
+        handler: () => {},
+      },
+      'commands/[id].js': {
+        handler: () => {},
+      },
+    };
+    mockCommandModules(commandModules);
+
+    expect(
+      await resolveCommand({
+        commandString: 'ls foo',
+        commandsDir: 'commands',
+      }),
+    ).toEqual({
+      command: commandModules['commands/list.js'],
+      commandName: 'list',
+      commandPath: 'commands/list.js',
+      commandTokens: ['ls'],
+      remainingCommandString: 'foo',
+      subcommandsDir: 'commands/list',
+    } as ResolvedCommand);
+
+    expect(
+      await resolveCommand({
+        commandString: '123',
+        commandsDir: 'commands',
+      }),
+    ).toMatchObject({
+      command: commandModules['commands/[id].js'],
+      params: { id: '123' },
+    } satisfies Partial<ResolvedCommand>);
+  });
+
+  it('surfaces import errors from siblings of aliased commands', async () => {
+    mockCommandModules({
+      'commands/broken.js': { handler: () => {} },
+      'commands/list.js': {
+        aliases: ['ls'],
+        handler: () => {},
+      },
+    });
+
+    const error = new SyntaxError('Unexpected token');
+    const source: CommandSource = {
+      ...fsCommandSource,
+      importCommand: (path) => {
+        if (path === 'commands/broken') throw error;
+        return fsCommandSource.importCommand(path);
+      },
+    };
+
+    await expect(
+      resolveCommand({
+        commandString: 'ls',
+        commandsDir: 'commands',
+        source,
+      }),
+    ).rejects.toBe(error);
+  });
+
+  it('suggests similar commands when a command is not found', async () => {
+    mockCommandModules({
+      'commands/deploy.js': { handler: () => {} },
+      'commands/destroy.js': { handler: () => {} },
+      'commands/list.js': { handler: () => {} },
+    });
+
+    const error = await resolveCommand({
+      commandString: 'eploy',
+      commandsDir: 'commands',
+    }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.suggestions).toEqual(['deploy']);
+    expect(error.message).toContain('Did you mean "deploy"?');
+  });
+
+  it("doesn't suggest hidden or disabled experimental commands", async () => {
+    mockCommandModules({
+      'commands/secret.js': { hidden: true, handler: () => {} },
+      'commands/beta.js': { stability: 'experimental', handler: () => {} },
+    });
+
+    const hiddenError = await resolveCommand({
+      commandString: 'secrt',
+      commandsDir: 'commands',
+    }).catch((error) => error);
+
+    expect(hiddenError).toBeInstanceOf(NotFoundError);
+    expect(hiddenError.suggestions).toEqual([]);
+
+    const betaError = await resolveCommand({
+      commandString: 'betaa',
+      commandsDir: 'commands',
+    }).catch((error) => error);
+
+    expect(betaError.suggestions).toEqual(['beta']);
+
+    const experimentalError = await resolveCommand({
+      commandString: 'betaa',
+      commandsDir: 'commands',
+      allowExperimental: false,
+    }).catch((error) => error);
+
+    expect(experimentalError).toBeInstanceOf(NotFoundError);
+    expect(experimentalError.suggestions).toEqual([]);
+  });
+
+  it("doesn't suggest unrelated commands for short names", async () => {
+    mockCommandModules({
+      'commands/ls.js': { handler: () => {} },
+    });
+
+    const error = await resolveCommand({
+      commandString: 'x',
+      commandsDir: 'commands',
+    }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.suggestions).toEqual([]);
+  });
+
+  it('resolves optional param commands', async () => {
+    const commandModules = {
+      'commands/[[...rest]].js': {
+        handler: () => {},
+      },
+    };
+    mockCommandModules(commandModules);
+
+    expect(
+      await resolveCommand({
+        commandString: '',
+        commandsDir: 'commands',
+      }),
+    ).toEqual({
+      command: commandModules['commands/[[...rest]].js'],
+      commandName: '[[...rest]]',
+      commandPath: 'commands/[[...rest]].js',
+      commandTokens: [],
+      remainingCommandString: '',
+      params: {
+        rest: [],
+      },
+      subcommandsDir: 'commands/[[...rest]]',
+    } as ResolvedCommand);
+
+    expect(
+      await resolveCommand({
+        commandString: 'a b',
+        commandsDir: 'commands',
+      }),
+    ).toMatchObject({
+      commandTokens: ['a', 'b'],
+      params: { rest: ['a', 'b'] },
+    } satisfies Partial<ResolvedCommand>);
+  });
+
+  it("resolves a directory's index module as its command", async () => {
+    const commandModules = {
+      'commands/list.js': {
+        handler: () => {},
+      },
+      'commands/build/index.js': {
+        description: 'build things',
+        handler: () => {},
+      },
+      'commands/build/all.js': {
+        handler: () => {},
+      },
+    };
+    mockCommandModules(commandModules);
+
+    expect(
+      await resolveCommand({
+        commandString: 'build all',
+        commandsDir: 'commands',
+      }),
+    ).toEqual({
+      command: commandModules['commands/build/index.js'],
+      commandName: 'build',
+      commandPath: 'commands/build/index.js',
+      commandTokens: ['build'],
+      remainingCommandString: 'all',
+      subcommandsDir: 'commands/build',
+    } as ResolvedCommand);
+
+    // The index module can't be called by name
+    await expect(
+      resolveCommand({
+        commandString: 'index',
+        commandsDir: 'commands/build',
+      }),
+    ).rejects.toThrowError(NotFoundError);
+  });
+
+  it("resolves a directory's fallback module for unmatched tokens", async () => {
+    const commandModules = {
+      'commands/proxy/known.js': {
+        handler: () => {},
+      },
+      'commands/proxy/_fallback.js': {
+        handler: () => {},
+      },
+    };
+    mockCommandModules(commandModules);
+
+    expect(
+      await resolveCommand({
+        commandString: 'known',
+        commandsDir: 'commands/proxy',
+      }),
+    ).toMatchObject({
+      command: commandModules['commands/proxy/known.js'],
+    } satisfies Partial<ResolvedCommand>);
+
+    expect(
+      await resolveCommand({
+        commandString: 'unknown --flag value',
+        commandsDir: 'commands/proxy',
+      }),
+    ).toEqual({
+      command: commandModules['commands/proxy/_fallback.js'],
+      commandName: 'unknown',
+      commandPath: 'commands/proxy/_fallback.js',
+      commandTokens: ['unknown', '--flag', 'value'],
+      remainingCommandString: '',
+      subcommandsDir: 'commands/proxy/unknown',
+      consumesOptions: true,
+    } as ResolvedCommand);
+
+    // Calling the fallback module by name is treated as an unmatched token
+    expect(
+      await resolveCommand({
+        commandString: '_fallback',
+        commandsDir: 'commands/proxy',
+      }),
+    ).toMatchObject({
+      commandName: '_fallback',
+      commandTokens: ['_fallback'],
+    } satisfies Partial<ResolvedCommand>);
+  });
 });
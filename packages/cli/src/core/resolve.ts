@@ -1,18 +1,34 @@
-import { readdirSync } from 'node:fs';
 import { dirname, join, resolve } from 'node:path';
+import type { ArgValues } from 'src/core/args';
 import {
   type CommandModule,
   passThroughCommand,
   passThroughHandler,
   validateCommandString,
 } from 'src/core/command';
+import {
+  type CommandSource,
+  FALLBACK_COMMAND_NAME,
+  GROUP_MIDDLEWARE_NAME,
+  fsCommandSource,
+  importCommandModule,
+  isReservedCommandName,
+  readCommandAliases,
+  readCommandEntries,
+} from 'src/core/command-source';
 import {
   CliError,
   type CliErrorOptions,
   CommandRequiredError,
   NotFoundError,
-  UsageError,
 } from 'src/core/errors';
+import {
+  type ExternalCommandsOptions,
+  createExternalCommand,
+  findExternalCommand,
+  listExternalCommands,
+} from 'src/core/external';
+import { coerceParam } from 'src/core/params';
 import {
   type ParseCommandFn,
   parseCommand,
@@ -22,9 +38,10 @@ import { getCallerPath } from 'src/utils/caller-path';
 import {
   formatFileName,
   parseFileName,
-  removeFileExtension,
+  parseGroupName,
 } from 'src/utils/filename';
-import { isDirectory, isFile } from 'src/utils/fs';
+import { findSimilar } from 'src/utils/find-similar';
+import { isDirectory } from 'src/utils/fs';
 import { joinTokens, splitTokens } from 'src/utils/tokens';
 import type { MaybePromise } from 'src/utils/types';
 
@@ -56,10 +73,12 @@ export type ResolveCommandFn = (
 ) => MaybePromise<ResolvedCommand>;
 
 /**
- * Params that were parsed from the command string.
+ * Params that were parsed from the command string. Values are strings, or
+ * string arrays for spread params, unless coerced by the command's
+ * {@linkcode CommandModule.params params} config.
  * @group Resolve
  */
-export type RouteParams = Record<string, string | string[]>;
+export type RouteParams = Record<string, unknown>;
 
 /**
  * Object containing details about the resolved command, the path to the command
@@ -101,6 +120,31 @@ export interface ResolvedCommand {
    * The route params associated with the resolved command.
    */
   params?: RouteParams;
+
+  /**
+   * The name of the command root the command was imported from, if commands
+   * are merged from multiple roots.
+   */
+  origin?: string;
+
+  /**
+   * The part of the command string passed to the command's positional args,
+   * if it declares any.
+   */
+  argsString?: string;
+
+  /**
+   * The values of the command's positional args, set when the command string
+   * is parsed.
+   */
+  args?: ArgValues;
+
+  /**
+   * Whether the command consumes the rest of the command string, including
+   * options it doesn't declare, e.g., external and fallback commands. Unknown
+   * options aren't validated when set since they're handled by the command.
+   */
+  consumesOptions?: boolean;
 }
 
 /**
@@ -124,6 +168,25 @@ export interface ResolveCommandParams {
    * remaining command string.
    */
   parseFn?: ParseCommandFn;
+
+  /**
+   * The source to look up command modules in.
+   * @default fsCommandSource
+   */
+  source?: CommandSource;
+
+  /**
+   * Options for resolving external executables, e.g., `acme-foo`, as commands
+   * when no command is found in the commands directory.
+   */
+  external?: ExternalCommandsOptions;
+
+  /**
+   * Whether to suggest commands with an `experimental` stability when a
+   * command isn't found. Hidden commands are never suggested.
+   * @default true
+   */
+  allowExperimental?: boolean;
 }
 
 /**
@@ -135,9 +198,25 @@ export interface ResolveCommandParams {
  * command file isn't directly found, it checks if the path is a directory and
  * treats it as a pass-through command, allowing deeper command resolution.
  *
- * If neither a command file nor a directory is found, it checks for
- * parameterized command files (e.g., [param].ts or [...param].ts) in the
- * expected directory and tries to resolve them.
+ * If neither a command file nor a directory is found, it checks the commands in
+ * the expected directory for a matching alias, then checks route group
+ * directories (e.g., `(admin)`) for a matching command, then checks for
+ * parameterized command files (e.g., [param].ts or [...param].ts) and tries to
+ * resolve them. If nothing matches, the directory's fallback module (e.g.,
+ * `_fallback.ts`) is used, which consumes the rest of the command string.
+ * Finally, if `external` options are provided, it checks for an
+ * external executable named after the command, e.g., `acme-foo`, which
+ * consumes the rest of the command string.
+ *
+ * Route groups resolve as a command that doesn't consume any tokens, using the
+ * group's middleware module if it has one, so the group's commands are resolved
+ * next from the group directory.
+ *
+ * A directory's own command module, e.g., `deploy/index.ts` or
+ * `deploy/_command.ts`, is used when there's no sibling command file.
+ *
+ * Commands are looked up in the provided {@linkcode CommandSource}, which
+ * defaults to reading the file system directly.
  *
  * The function provides detailed error feedback if the command can't be
  * resolved or if the found module doesn't export a default command.
@@ -146,9 +225,9 @@ export interface ResolveCommandParams {
  * the command file, any parameters, and a function to resolve the next command,
  * if any.
  *
- * @throws {UsageError | NotFoundError | MissingDefaultExportError} Throws an
- * error if command resolution fails due to missing tokens, command not found,
- * or missing default export.
+ * @throws {UsageError | NotFoundError | MissingDefaultExportError | ParamError}
+ * Throws an error if command resolution fails due to missing tokens, command not
+ * found, missing default export, or an invalid param value.
  *
  * @group Resolve
  */
@@ -156,8 +235,22 @@ export async function resolveCommand({
   commandString,
   commandsDir,
   parseFn = parseCommand,
+  source = fsCommandSource,
+  external,
+  allowExperimental = true,
 }: ResolveCommandParams): Promise<ResolvedCommand> {
-  if (!commandString.length) throw new CommandRequiredError();
+  // An empty command string can only be resolved by an optional param command
+  // (e.g., [[param]].ts) which matches zero tokens.
+  if (!commandString.length) {
+    const resolved = await resolveParamCommand({
+      commandString,
+      commandsDir,
+      parseFn,
+      source,
+    });
+    if (!resolved) throw new CommandRequiredError();
+    return prepareResolvedCommand(resolved, parseFn);
+  }
 
   const [commandName, ...remainingTokens] = splitTokens(commandString) as [
     string,
@@ -165,64 +258,122 @@ export async function resolveCommand({
   ];
 
   // Validate the command name and commands directory before resolving a command.
-  validateResolvable(commandName, commandsDir);
+  validateResolvable(commandName, commandsDir, source);
 
   const subcommandsDir = join(commandsDir, commandName);
-  const commandPath = formatFileName(subcommandsDir);
   const commandTokens = [commandName];
   const remainingCommandString = joinTokens(remainingTokens);
   let resolved: ResolvedCommand | undefined;
 
-  // Attempt to load the command file.
-  try {
-    const { default: command }: { default: CommandModule } = await import(
-      commandPath
-    );
+  // Modules with reserved names, e.g., `index` and `_middleware`, belong to
+  // their directory and can't be called by name.
+  const isReserved = isReservedCommandName(commandName);
+
+  // Attempt to load the command file or the directory's own command module.
+  const imported = isReserved
+    ? undefined
+    : await importCommandModule(source, subcommandsDir);
 
-    if (!command) {
-      throw new MissingDefaultExportError(commandName, commandPath);
+  if (imported) {
+    if (!imported.command) {
+      throw new MissingDefaultExportError(commandName, imported.commandPath);
     }
 
     resolved = {
-      command,
-      commandPath,
+      command: imported.command,
+      commandPath: imported.commandPath,
       commandName,
       commandTokens,
       remainingCommandString,
       subcommandsDir,
+      origin: imported.origin,
     };
-  } catch (err: unknown) {
-    // If the file exists but couldn't be loaded for some other reason, forward
-    // the error to avoid masking module errors.
-    if (isFile(commandPath)) throw err;
-
-    // If the command file doesn't exist, check if the path is a directory and
-    // treat it as a pass-through command.
-    if (isDirectory(subcommandsDir)) {
-      resolved = {
-        command: passThroughCommand,
-        commandPath,
-        commandName,
-        commandTokens,
-        remainingCommandString,
-        subcommandsDir,
-      };
-    }
+  } else if (!isReserved && source.isDirectory(subcommandsDir)) {
+    // If the command file doesn't exist, but the path is a directory, treat it
+    // as a pass-through command.
+    resolved = {
+      command: passThroughCommand,
+      commandPath: formatFileName(subcommandsDir),
+      commandName,
+      commandTokens,
+      remainingCommandString,
+      subcommandsDir,
+    };
+  }
+
+  // If the command file wasn't found, attempt to resolve an aliased command.
+  if (!resolved) {
+    resolved = await resolveAliasCommand({
+      commandString,
+      commandsDir,
+      source,
+    });
   }
 
-  // If the command file wasn't found, attempt to resolve a parameterized
+  // If the command still wasn't found, attempt to resolve it in a route group.
+  if (!resolved) {
+    resolved = await resolveGroupCommand({
+      commandString,
+      commandsDir,
+      source,
+    });
+  }
+
+  // If the command still wasn't found, attempt to resolve a parameterized
   // command.
   if (!resolved) {
     resolved = await resolveParamCommand({
       commandString,
       commandsDir,
       parseFn,
+      source,
     });
   }
 
-  // If the command file still wasn't found, throw an error.
+  // If the command still wasn't found, attempt to resolve a parameterized
+  // command in a route group.
   if (!resolved) {
-    throw new NotFoundError(commandName, commandsDir);
+    resolved = await resolveGroupCommand({
+      commandString,
+      commandsDir,
+      source,
+      matchParams: true,
+    });
+  }
+
+  // If the command still wasn't found, attempt to resolve the directory's
+  // fallback command.
+  if (!resolved) {
+    resolved = await resolveFallbackCommand({
+      commandString,
+      commandsDir,
+      parseFn,
+      source,
+    });
+  }
+
+  // If the command still wasn't found, attempt to resolve an external
+  // executable.
+  if (!resolved && external) {
+    resolved = resolveExternalCommand({
+      commandString,
+      commandsDir,
+      external,
+    });
+  }
+
+  // If the command file still wasn't found, throw an error with suggestions
+  // for similarly named commands.
+  if (!resolved) {
+    throw new NotFoundError(commandName, commandsDir, {
+      suggestions: await findSimilarCommands({
+        commandName,
+        commandsDir,
+        source,
+        external,
+        allowExperimental,
+      }),
+    });
   }
 
   return prepareResolvedCommand(resolved, parseFn);
@@ -231,7 +382,8 @@ export async function resolveCommand({
 /**
  * Prepares a resolved command by ensuring the remaining command string starts
  * with a subcommand name and replacing the handler with a pass-through function
- * if the command won't be executed.
+ * if the command won't be executed. Commands with positional args consume the
+ * remaining command string as their `argsString`.
  *
  * @returns The prepared resolved command.
  *
@@ -243,6 +395,13 @@ export async function prepareResolvedCommand(
 ) {
   const isMiddleware = resolved.command.isMiddleware ?? true;
 
+  // Commands with positional args consume the rest of the command string,
+  // which is parsed with the rest of the options once they're all known.
+  if (resolved.command.args) {
+    resolved.argsString = resolved.remainingCommandString;
+    resolved.remainingCommandString = '';
+  }
+
   // Ensure the remaining command string starts with a subcommand name by
   // removing any leading options. This will ensure they aren't treated as
   // command names which would cause errors during resolution. For example:
@@ -307,18 +466,227 @@ export function resolveDefaultCommandsDir(callerDepth = 0): string {
  *
  * @param commandName - The name of the command to validate.
  * @param commandsDir - The path to the directory containing command files.
+ * @param source - The source to look up the commands directory in.
  *
  * @throws {OptionsError | UsageError | NotFoundError} Throws an error if the
  * command name looks like an option, if the command name is a relative path, or
  * if the commands directory does not exist.
  */
-function validateResolvable(commandName: string, commandsDir: string): void {
+function validateResolvable(
+  commandName: string,
+  commandsDir: string,
+  source: CommandSource,
+): void {
   validateCommandString(commandName);
-  if (!isDirectory(commandsDir)) {
+  if (!source.isDirectory(commandsDir)) {
     throw new NotFoundError(commandName, commandsDir);
   }
 }
 
+/**
+ * Finds the names of visible commands in the given directory that are similar
+ * to the command name, leaving out hidden commands and, unless allowed,
+ * experimental ones.
+ */
+async function findSimilarCommands({
+  commandName,
+  commandsDir,
+  source,
+  external,
+  allowExperimental,
+}: {
+  commandName: string;
+  commandsDir: string;
+  source: CommandSource;
+  external?: ExternalCommandsOptions;
+  allowExperimental: boolean;
+}): Promise<string[]> {
+  const entries = readCommandEntries(source, commandsDir).filter(
+    ({ name }) => !parseFileName(name).paramName,
+  );
+  const externalNames = external ? listExternalCommands(external) : [];
+
+  // Scale the threshold with the length of the name to avoid suggesting
+  // unrelated short commands, e.g., `x` -> `ls`.
+  const similarNames = findSimilar(
+    commandName,
+    [...entries.map(({ name }) => name), ...externalNames],
+    { threshold: Math.min(2, Math.floor(commandName.length / 3)) },
+  );
+
+  // Only the similar commands are imported to check if they're visible.
+  const suggestions: string[] = [];
+  for (const name of similarNames) {
+    const entry = entries.find((entry) => entry.name === name);
+    if (entry) {
+      const imported = await importCommandModule(
+        source,
+        join(entry.dir, entry.name),
+      );
+      const command = imported?.command;
+      if (
+        command?.hidden ||
+        (!allowExperimental && command?.stability === 'experimental')
+      ) {
+        continue;
+      }
+    }
+    suggestions.push(name);
+  }
+  return suggestions;
+}
+
+/**
+ * Attempts to load a command module by finding a command in the given
+ * directory that declares the first token of the command string as an alias.
+ */
+async function resolveAliasCommand({
+  commandString,
+  commandsDir,
+  source = fsCommandSource,
+}: ResolveCommandParams): Promise<ResolvedCommand | undefined> {
+  const [alias, ...remainingTokens] = splitTokens(commandString) as [
+    string,
+    ...string[],
+  ];
+
+  for (const commandName of source.readDir(commandsDir)) {
+    // Param commands already match any token, so their aliases are ignored.
+    if (
+      parseFileName(commandName).paramName ||
+      parseGroupName(commandName) ||
+      isReservedCommandName(commandName)
+    ) {
+      continue;
+    }
+
+    const subcommandsDir = join(commandsDir, commandName);
+
+    // Skip the import if the source knows the command's aliases.
+    const aliases = readCommandAliases(source, subcommandsDir);
+    if (aliases && !aliases.includes(alias)) continue;
+
+    // Otherwise, the command has to be imported to read its aliases. Sources
+    // only skip missing modules, so errors from modules that exist surface
+    // the same way they would if the command was resolved by name.
+    const imported = await importCommandModule(source, subcommandsDir);
+    if (!imported?.command?.aliases?.includes(alias)) continue;
+
+    return {
+      command: imported.command,
+      commandName,
+      commandPath: imported.commandPath,
+      commandTokens: [alias],
+      remainingCommandString: joinTokens(remainingTokens),
+      subcommandsDir,
+      origin: imported.origin,
+    };
+  }
+}
+
+/**
+ * Attempts to find a route group directory (e.g., `(admin)`) in the given
+ * directory that contains a matching command. The group is resolved as a
+ * command that doesn't consume any tokens so the matching command is resolved
+ * next from the group directory.
+ *
+ * Only commands matching by name or alias are found unless `matchParams` is
+ * set, so param commands in groups have a lower priority than the directory's
+ * own param commands.
+ */
+async function resolveGroupCommand({
+  commandString,
+  commandsDir,
+  source = fsCommandSource,
+  matchParams = false,
+}: ResolveCommandParams & {
+  matchParams?: boolean;
+}): Promise<ResolvedCommand | undefined> {
+  const [commandToken = ''] = splitTokens(commandString);
+
+  for (const commandName of source.readDir(commandsDir)) {
+    const subcommandsDir = join(commandsDir, commandName);
+    if (!parseGroupName(commandName) || !source.isDirectory(subcommandsDir)) {
+      continue;
+    }
+
+    // Check if the group contains a matching command, including commands in
+    // nested groups.
+    const hasCommand = await hasGroupCommand({
+      commandToken,
+      groupDir: subcommandsDir,
+      source,
+      matchParams,
+    });
+    if (!hasCommand) continue;
+
+    const middleware = await source.importCommand(
+      join(subcommandsDir, GROUP_MIDDLEWARE_NAME),
+    );
+
+    if (middleware && !middleware.command) {
+      throw new MissingDefaultExportError(
+        GROUP_MIDDLEWARE_NAME,
+        middleware.commandPath,
+      );
+    }
+
+    return {
+      command: middleware?.command || passThroughCommand,
+      commandName,
+      commandPath: middleware?.commandPath || formatFileName(subcommandsDir),
+      commandTokens: [],
+      remainingCommandString: commandString,
+      subcommandsDir,
+      origin: middleware?.origin,
+    };
+  }
+}
+
+/**
+ * Check if a route group directory, or any of its nested groups, contains a
+ * command for a token by looking up the names of its commands rather than
+ * resolving them.
+ */
+async function hasGroupCommand({
+  commandToken,
+  groupDir,
+  source,
+  matchParams,
+}: {
+  commandToken: string;
+  groupDir: string;
+  source: CommandSource;
+  matchParams: boolean;
+}): Promise<boolean> {
+  for (const name of source.readDir(groupDir)) {
+    const path = join(groupDir, name);
+
+    if (parseGroupName(name)) {
+      if (!source.isDirectory(path)) continue;
+      const hasCommand = await hasGroupCommand({
+        commandToken,
+        groupDir: path,
+        source,
+        matchParams,
+      });
+      if (hasCommand) return true;
+    } else if (parseFileName(name).paramName) {
+      if (matchParams) return true;
+    } else if (name === commandToken && !isReservedCommandName(name)) {
+      return true;
+    }
+  }
+
+  if (matchParams) return false;
+  const alias = await resolveAliasCommand({
+    commandString: commandToken,
+    commandsDir: groupDir,
+    source,
+  });
+  return !!alias;
+}
+
 /**
  * Attempts to load a command module by finding a param file name in the given
  * directory.
@@ -327,26 +695,27 @@ async function resolveParamCommand({
   commandString,
   commandsDir,
   parseFn = parseCommand,
+  source = fsCommandSource,
 }: ResolveCommandParams): Promise<ResolvedCommand | undefined> {
-  if (!commandString.length) throw new UsageError('Command required.');
-
-  const fileNames = readdirSync(commandsDir);
-  let tokens = splitTokens(commandString) as [string, ...string[]];
+  const commandNames = source.readDir(commandsDir);
+  let tokens = splitTokens(commandString);
   let resolved: ResolvedCommand | undefined;
 
   // optimization opportunities:
   //   - cache the results of this function
   //   - parse all file names at once
-  for (const fileName of fileNames) {
-    const { spreadOperator, paramName } = parseFileName(fileName);
+  for (const commandName of commandNames) {
+    const { spreadOperator, paramName, optional } = parseFileName(commandName);
 
     // Skip files that don't match the expected param file name format.
     if (!paramName) continue;
 
-    const commandName = removeFileExtension(fileName);
-    const commandPath = join(commandsDir, formatFileName(commandName));
+    // Only optional params (e.g., [[param]].ts) can match zero tokens.
+    if (!tokens.length && !optional) continue;
+
     const subcommandsDir = join(commandsDir, commandName);
     const [commandToken, ...remainingTokens] = tokens;
+    const commandTokens = commandToken === undefined ? [] : [commandToken];
 
     // Empty the remaining command string if the param has a spread operator
     // (e.g., [...param].ts) indicating that all remaining tokens should be
@@ -355,49 +724,56 @@ async function resolveParamCommand({
       ? ''
       : joinTokens(remainingTokens);
 
-    // Attempt to load the command file.
-    try {
-      const { default: command } = await import(commandPath);
+    // Attempt to load the command file or the directory's own command module.
+    const imported = await importCommandModule(source, subcommandsDir);
+
+    if (imported) {
+      const { command, commandPath, origin } = imported;
 
       if (!command) {
-        throw new MissingDefaultExportError(tokens[0], commandPath);
+        throw new MissingDefaultExportError(
+          commandToken ?? commandName,
+          commandPath,
+        );
       }
 
       // Parse the command string to separate the tokens from the options.
       if (command.options) {
         const parsedString = await parseFn(commandString, command.options);
-        tokens = parsedString.tokens as [string, ...string[]];
+        tokens = parsedString.tokens;
       }
 
       // If the param has a spread operator (e.g., [...param].ts), then pass all
       // command tokens as the param value. Otherwise, pass only the first
-      // command token.
+      // command token. The value is coerced and validated using the command's
+      // params config, if any.
       const params = {
-        [paramName]: spreadOperator ? tokens : commandToken,
+        [paramName]: coerceParam(
+          paramName,
+          spreadOperator ? tokens : commandToken,
+          command.params?.[paramName],
+        ),
       };
 
       resolved = {
         command,
         commandName,
         commandPath,
-        commandTokens: spreadOperator ? tokens : [commandToken],
+        commandTokens: spreadOperator ? tokens : commandTokens,
         params,
         remainingCommandString,
         subcommandsDir,
+        origin,
       };
-    } catch (err) {
-      // If the file exists but couldn't be loaded for some other reason,
-      // forward the error to avoid masking module errors.
-      if (isFile(commandPath)) throw err;
-
+    } else {
       // If the command file doesn't exist, assume the path is a directory and
       // treat it as a pass-through command. This is safe to assume since the
-      // paths are derived from readdir so we know they exist.
+      // names are read from the source so we know they exist.
       resolved = {
         command: passThroughCommand,
         commandName,
-        commandPath,
-        commandTokens: [commandToken],
+        commandPath: formatFileName(subcommandsDir),
+        commandTokens,
         params: {
           [paramName]: commandToken,
         },
@@ -410,3 +786,83 @@ async function resolveParamCommand({
     return resolved;
   }
 }
+
+/**
+ * Attempts to import the fallback module (e.g., `_fallback.ts`) of the given
+ * directory. The fallback command consumes all remaining tokens, which are
+ * passed to it as its `commandTokens`.
+ */
+async function resolveFallbackCommand({
+  commandString,
+  commandsDir,
+  parseFn,
+  source,
+}: {
+  commandString: string;
+  commandsDir: string;
+  parseFn: ParseCommandFn;
+  source: CommandSource;
+}): Promise<ResolvedCommand | undefined> {
+  const imported = await source.importCommand(
+    join(commandsDir, FALLBACK_COMMAND_NAME),
+  );
+  if (!imported) return;
+
+  const { command, commandPath, origin } = imported;
+  if (!command) {
+    throw new MissingDefaultExportError(FALLBACK_COMMAND_NAME, commandPath);
+  }
+
+  // Like spread params, remove the command's own options from the tokens.
+  let tokens = splitTokens(commandString);
+  if (command.options) {
+    const parsedString = await parseFn(commandString, command.options);
+    tokens = parsedString.tokens;
+  }
+
+  const [commandName = FALLBACK_COMMAND_NAME] = splitTokens(commandString);
+
+  return {
+    command,
+    commandName,
+    commandPath,
+    commandTokens: tokens,
+    remainingCommandString: '',
+    subcommandsDir: join(commandsDir, commandName),
+    origin,
+    consumesOptions: true,
+  };
+}
+
+/**
+ * Attempts to find an external executable for the first token of the command
+ * string, e.g., `acme-foo` for `foo`. The external command consumes all
+ * remaining tokens, which are passed to the executable as arguments.
+ */
+function resolveExternalCommand({
+  commandString,
+  commandsDir,
+  external,
+}: {
+  commandString: string;
+  commandsDir: string;
+  external: ExternalCommandsOptions;
+}): ResolvedCommand | undefined {
+  const commandTokens = splitTokens(commandString);
+  const [commandName] = commandTokens;
+  if (!commandName) return;
+
+  const executablePath = findExternalCommand(commandName, external);
+  if (!executablePath) return;
+
+  return {
+    command: createExternalCommand(executablePath),
+    commandName,
+    commandPath: executablePath,
+    commandTokens,
+    remainingCommandString: '',
+    subcommandsDir: join(commandsDir, commandName),
+    origin: executablePath,
+    consumesOptions: true,
+  };
+}
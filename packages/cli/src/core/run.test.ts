@@ -8,8 +8,9 @@ import {
 import { dirname, join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Client } from 'src/core/client';
-import { Context } from 'src/core/context';
-import { CliError } from 'src/core/errors';
+import type { CommandTree } from 'src/core/command-tree';
+import { Context, ExperimentalCommandError } from 'src/core/context';
+import { CliError, NotFoundError } from 'src/core/errors';
 import type { HookPayload } from 'src/core/hooks';
 import type { Plugin } from 'src/core/plugin';
 import { run } from 'src/core/run';
@@ -200,6 +201,120 @@ describe('run', () => {
     expect(result).toBe(endData);
   });
 
+  it('resolves commands in route groups without consuming a token', async () => {
+    const calls: string[] = [];
+
+    const result = await run({
+      command: 'users',
+      commands: {
+        '(admin)': {
+          _middleware: {
+            handler: ({ next }) => {
+              calls.push('middleware');
+              return next();
+            },
+          },
+          users: {
+            handler: ({ end }) => {
+              calls.push('users');
+              end('users');
+            },
+          },
+        },
+      },
+    });
+
+    expect(result).toBe('users');
+    expect(calls).toEqual(['middleware', 'users']);
+  });
+
+  it('prefers param commands over param commands in route groups', async () => {
+    const commands: CommandTree = {
+      '[id]': { handler: ({ end }) => end('param') },
+      '(admin)': {
+        users: { handler: ({ end }) => end('users') },
+        '[name]': {
+          params: { name: { type: 'number' } },
+          handler: ({ end }) => end('group param'),
+        },
+      },
+    };
+
+    expect(await run({ command: 'users', commands })).toBe('users');
+    expect(await run({ command: 'abc', commands })).toBe('param');
+
+    delete commands['[id]'];
+    expect(await run({ command: '123', commands })).toBe('group param');
+  });
+
+  it('resolves optional param commands with zero tokens', async () => {
+    const { mocks } = mockCommandModules({
+      'commands/ship': {
+        handler: vi.fn(({ next }) => next()),
+      },
+      'commands/ship/[[env]]': {
+        handler: vi.fn(({ params, end }) => end(params.env)),
+      },
+    });
+
+    expect(
+      await run({
+        command: 'ship',
+        commandsDir: 'commands',
+      }),
+    ).toBeUndefined();
+    expect(mocks['commands/ship/[[env]]'].handler).toHaveBeenCalledTimes(1);
+
+    expect(
+      await run({
+        command: 'ship staging',
+        commandsDir: 'commands',
+      }),
+    ).toBe('staging');
+  });
+
+  it('warns when a deprecated command runs', async () => {
+    const client = new Client();
+    const warn = vi.spyOn(client, 'warn').mockImplementation(() => {});
+
+    await run({
+      command: 'old',
+      client,
+      commands: {
+        old: {
+          deprecated: { message: 'It was slow.', replacement: 'new' },
+          handler: () => {},
+        },
+      },
+    });
+
+    expect(warn).toHaveBeenCalledWith(
+      'Command "old" is deprecated. It was slow. Use "new" instead.',
+    );
+  });
+
+  it('disables experimental commands', async () => {
+    const handler = vi.fn();
+    const commands = {
+      beta: { stability: 'experimental' as const, handler },
+    };
+
+    await run({ command: 'beta', commands });
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await expect(
+      run({ command: 'beta', commands, allowExperimental: false }),
+    ).rejects.toThrowError(ExperimentalCommandError);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await expect(
+      run({ command: 'betaa', commands, allowExperimental: false }),
+    ).rejects.toThrowError(NotFoundError);
+    await expect(
+      run({ command: 'betaa', commands, allowExperimental: false }),
+    ).rejects.toMatchObject({ suggestions: [] });
+  });
+
   it("handles commands that don't call an action", async () => {
     const endData = 'end data';
     mockCommandModules({
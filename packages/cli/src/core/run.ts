@@ -1,14 +1,27 @@
+import { join } from 'node:path';
 import { type Client, ClientError } from 'src/core/client';
+import type { CommandRoot } from 'src/core/command-roots';
+import type { TranspileFn } from 'src/core/command-source';
+import type { CommandTree } from 'src/core/command-tree';
+import type { ExternalCommandsOptions } from 'src/core/external';
+import {
+  COMMAND_MANIFEST_FILE_NAME,
+  type CommandManifest,
+  CommandManifestError,
+  readCommandManifest,
+} from 'src/core/manifest';
 import type { ParseCommandFn } from 'src/core/parse';
 import {
+  DEFAULT_COMMANDS_DIR_NAME,
   type ResolveCommandFn,
   resolveDefaultCommandsDir,
 } from 'src/core/resolve';
 import { hideBin } from 'src/utils/argv';
 import { joinTokens } from 'src/utils/tokens';
-import { Context } from './context';
+import { Context, type ContextParams } from './context';
 import { CliError } from './errors';
 import { HookRegistry, type LifecycleHooks } from './hooks';
+import type { ConfigFileOptions } from './options/config-file';
 import type { OptionsConfig } from './options/options';
 import type { Plugin } from './plugin';
 
@@ -29,10 +42,133 @@ export interface RunParams {
   defaultCommand?: string | string[];
 
   /**
-   * A directory path containing command modules.
+   * An in-memory tree of command modules to use instead of a commands
+   * directory. Param and spread commands are keyed by their file names, e.g.,
+   * `[id]` and `[...rest]`.
+   *
+   * @example
+   * ```ts
+   * run({
+   *   commands: {
+   *     hello: helloCommand,
+   *     users: { '[id]': userCommand },
+   *   },
+   * });
+   * ```
+   */
+  commands?: CommandTree;
+
+  /**
+   * A directory path containing command modules. If `commands` is provided,
+   * this is only used as the virtual path of the command tree's root.
+   *
+   * Can also be an ordered list of command roots, e.g., a core CLI's commands
+   * followed by commands from other packages. The roots are merged into one
+   * tree where later roots can add new commands, but can only replace a
+   * command from an earlier root if the later command sets `override: true`.
+   * Other conflicts throw a `CommandConflictError`.
+   *
+   * @example
+   * ```ts
+   * run({
+   *   commandsDir: [
+   *     { dir: 'node_modules/@acme/cli/dist/commands', name: '@acme/cli' },
+   *     { dir: 'commands', name: 'local' },
+   *   ],
+   * });
+   * ```
+   *
    * @default `${process.cwd()}/commands` || `${__dirname}/commands`
    */
-  commandsDir?: string;
+  commandsDir?: string | (string | CommandRoot)[];
+
+  /**
+   * Options for resolving external executables as top-level commands when no
+   * command is found in the commands directory, the way git resolves `git foo`
+   * to a `git-foo` executable. External commands receive the remaining tokens
+   * as arguments and the parsed option values as JSON in the `GUD_CLI_OPTIONS`
+   * environment variable, and their exit code is forwarded.
+   *
+   * @example
+   * ```ts
+   * run({
+   *   external: { bin: 'acme' },
+   * });
+   * ```
+   */
+  external?: ExternalCommandsOptions;
+
+  /**
+   * Whether commands with an `experimental` stability can be run. If `false`,
+   * they're also omitted from help and command menus.
+   * @default true
+   */
+  allowExperimental?: boolean;
+
+  /**
+   * A prefix to derive environment variable names from for options that
+   * don't name an `env` key. For example, with a prefix of `MYCLI`, the
+   * `MYCLI_LOG_LEVEL` environment variable is used for `--log-level` when the
+   * flag isn't provided.
+   */
+  envPrefix?: string;
+
+  /**
+   * The name of the CLI, or options for finding its config file, to load
+   * option values from a project config file found by searching up from the
+   * current working directory. For example, with a name of `mycli`, the
+   * `.myclirc`, `mycli.config.json`, `mycli.config.js`, or `mycli.config.ts`
+   * files or the `mycli` key of a `package.json` file.
+   *
+   * Config values are used for options that aren't provided on the command
+   * line or by environment variables and can be scoped to commands in a
+   * `commands` section keyed by command path.
+   *
+   * @example
+   * ```ts
+   * run({
+   *   configFile: 'mycli',
+   * });
+   * ```
+   */
+  configFile?: string | ConfigFileOptions;
+
+  /**
+   * The file extensions to probe for command modules in the commands
+   * directory, in order of preference.
+   * @default ['.js', '.mjs', '.cjs', '.ts', '.mts', '.cts']
+   */
+  extensions?: string[];
+
+  /**
+   * A function to import TypeScript command modules, e.g., by transpiling them
+   * on the fly. Useful for pointing `commandsDir` at TypeScript sources during
+   * development. If not provided, TypeScript modules are imported natively.
+   *
+   * @example
+   * ```ts
+   * import { tsImport } from 'tsx/esm/api';
+   *
+   * run({
+   *   commandsDir: 'src/commands',
+   *   transpile: (path) => tsImport(path, import.meta.url),
+   * });
+   * ```
+   */
+  transpile?: TranspileFn;
+
+  /**
+   * A precompiled manifest of the commands directory, or a path to a manifest
+   * file, used to resolve commands without probing the file system. Set to
+   * `false` to always read the file system. Manifests can be generated at
+   * build time with `writeCommandManifest()`.
+   *
+   * When `commandsDir` is a list of roots, each root reads its own manifest
+   * and this can only be set to `false` to disable reading them.
+   *
+   * @default `${commandsDir}/commands.manifest.json` if it exists
+   */
+  manifest?: CommandManifest | string | false;
 
   /**
    * Initial context or data to pass to commands during execution.
@@ -95,7 +231,17 @@ export interface RunParams {
 export async function run({
   command = hideBin(process.argv),
   defaultCommand,
-  commandsDir = resolveDefaultCommandsDir(1),
+  commands,
+  commandsDir = commands
+    ? DEFAULT_COMMANDS_DIR_NAME
+    : resolveDefaultCommandsDir(1),
+  external,
+  allowExperimental,
+  envPrefix,
+  configFile,
+  extensions,
+  transpile,
+  manifest,
   initialData,
   options,
   plugins,
@@ -109,10 +255,55 @@ export async function run({
     commandString = joinTokens(defaultCommand, command);
   }
 
+  // Layer multiple command roots into one tree.
+  let roots: ContextParams['roots'];
+  let resolvedManifest: CommandManifest | false | undefined;
+  if (Array.isArray(commandsDir)) {
+    if (!commandsDir.length) {
+      throw new CliError('At least one command root is required.');
+    }
+    if (manifest) {
+      throw new CommandManifestError(
+        'Set the `manifest` of each command root when using multiple roots.',
+      );
+    }
+    roots = commandsDir.map((root) => {
+      const {
+        dir,
+        name,
+        manifest: rootManifest,
+      } = typeof root === 'string' ? { dir: root } : root;
+      return {
+        dir,
+        name,
+        manifest: resolveManifest(rootManifest ?? manifest, dir) || undefined,
+      };
+    });
+    commandsDir = roots[0]!.dir;
+  } else if (!commands) {
+    resolvedManifest = resolveManifest(manifest, commandsDir);
+  }
+
   // create context
   const context = new Context({
     commandString,
     commandsDir,
+    manifest: resolvedManifest || undefined,
+    commands,
+    roots,
+    external,
+    allowExperimental,
+    envPrefix,
+    configFileOptions: configFile
+      ? {
+          transpile,
+          ...(typeof configFile === 'string'
+            ? { name: configFile }
+            : configFile),
+        }
+      : undefined,
+    extensions,
+    transpile,
     options,
     plugins,
     hooks: new HookRegistry(hooks),
@@ -136,3 +327,27 @@ export async function run({
     throw new CliError(error);
   }
 }
+
+// Internal //
+
+// Resolve the manifest option for a commands directory, reading it from a path
+// or from the directory's default manifest file. Returns `undefined` to fall
+// back to reading the file system if no manifest is found.
+function resolveManifest(
+  manifest: CommandManifest | string | false | undefined,
+  commandsDir: string,
+): CommandManifest | false | undefined {
+  if (manifest === undefined) {
+    return readCommandManifest(join(commandsDir, COMMAND_MANIFEST_FILE_NAME));
+  }
+  if (typeof manifest === 'string') {
+    const manifestPath = manifest;
+    manifest = readCommandManifest(manifestPath);
+    if (!manifest) {
+      throw new CommandManifestError(
+        `Unable to find manifest at "${manifestPath}"`,
+      );
+    }
+  }
+  return manifest;
+}
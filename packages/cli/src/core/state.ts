@@ -1,6 +1,8 @@
+import type { ArgValues } from 'src/core/args';
 import type { CommandModule } from 'src/core/command';
 import type { Context } from 'src/core/context';
 import { CliError } from 'src/core/errors';
+import type { OptionSources } from 'src/core/options/option-source';
 import type { OptionValues, OptionsConfig } from 'src/core/options/options';
 import {
   type OptionsGetter,
@@ -52,6 +54,12 @@ interface StateParams<TData = unknown> {
    * it defaults to the parsed options from the context.
    */
   optionValues?: OptionValues;
+
+  /**
+   * The sources of the option values. If not provided, it defaults to the
+   * sources of the parsed options from the context.
+   */
+  optionSources?: OptionSources;
 }
 
 /**
@@ -100,6 +108,7 @@ export class State<
     commands,
     options = context.options,
     optionValues = context.optionValues,
+    optionSources = context.optionSources,
   }: StateParams<TData>) {
     this.#context = context;
     this.#data = initialData as TData;
@@ -110,6 +119,7 @@ export class State<
       client: context.client,
       optionsConfig: options,
       optionValues: optionValues,
+      optionSources: optionSources,
       onPromptCancel: context.exit,
     });
   }
@@ -158,6 +168,14 @@ export class State<
     return this.#params;
   }
 
+  /**
+   * The values of the current command's positional args, e.g., `src` and
+   * `dest` for `cp <src> <dest>`.
+   */
+  get args(): ArgValues {
+    return this.command?.args || {};
+  }
+
   /**
    * An {@linkcode OptionsGetter} to dynamically retrieve options.
    */
@@ -400,6 +418,7 @@ export class State<
         ...resolvedCommandsOptions,
       },
       optionValues: this.options.values,
+      optionSources: this.options.sources,
     });
 
     // Override options with the provided values
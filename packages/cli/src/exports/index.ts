@@ -1,4 +1,14 @@
 // core
+export {
+  ArgsConfigError,
+  ArgsError,
+  formatArgUsage,
+  parseArgs,
+  validateArgsConfig,
+  type ArgConfig,
+  type ArgValues,
+  type ArgsConfig,
+} from 'src/core/args';
 export {
   Client,
   ClientError,
@@ -8,17 +18,53 @@ export {
 } from 'src/core/client';
 export {
   command,
+  formatDeprecationWarning,
+  getCommandBadges,
+  getCommandDeprecation,
   passThroughCommand,
   passThroughHandler,
   validateCommandString,
+  type CommandDeprecation,
   type CommandFactoryConfig,
   type CommandFactoryReturn,
   type CommandHandler,
   type CommandModule,
+  type CommandStability,
   type CommandState,
 } from 'src/core/command';
+export {
+  CommandConflictError,
+  createLayeredCommandSource,
+  type CommandRoot,
+  type CommandSourceLayer,
+} from 'src/core/command-roots';
+export {
+  DEFAULT_COMMAND_EXTENSIONS,
+  DIRECTORY_COMMAND_NAMES,
+  FALLBACK_COMMAND_NAME,
+  GROUP_MIDDLEWARE_NAME,
+  createFsCommandSource,
+  fsCommandSource,
+  importCommandModule,
+  importModule,
+  isReservedCommandName,
+  readCommandAliases,
+  readCommandEntries,
+  type CommandEntry,
+  type CommandSource,
+  type FsCommandSourceOptions,
+  type ImportedCommand,
+  type TranspileFn,
+} from 'src/core/command-source';
+export {
+  createCommandTreeSource,
+  isCommandTreeModule,
+  type CommandTree,
+  type CommandTreeModule,
+} from 'src/core/command-tree';
 export {
   Context,
+  ExperimentalCommandError,
   SubcommandRequiredError,
   type ContextParams,
 } from 'src/core/context';
@@ -27,8 +73,18 @@ export {
   CommandRequiredError,
   NotFoundError,
   UsageError,
+  formatSuggestions,
   type CliErrorOptions,
+  type NotFoundErrorOptions,
 } from 'src/core/errors';
+export {
+  EXTERNAL_OPTIONS_ENV_NAME,
+  ExternalCommandError,
+  createExternalCommand,
+  findExternalCommand,
+  listExternalCommands,
+  type ExternalCommandsOptions,
+} from 'src/core/external';
 export type {
   GetHelpOptions,
   Help,
@@ -43,6 +99,18 @@ export {
   type HookPayload,
   type LifecycleHooks,
 } from 'src/core/hooks';
+export {
+  COMMAND_MANIFEST_FILE_NAME,
+  COMMAND_MANIFEST_VERSION,
+  CommandManifestError,
+  createManifestCommandSource,
+  generateCommandManifest,
+  readCommandManifest,
+  writeCommandManifest,
+  type CommandManifest,
+  type CommandManifestRoute,
+  type GenerateCommandManifestOptions,
+} from 'src/core/manifest';
 export {
   MissingDefaultExportError,
   prepareResolvedCommand,
@@ -64,8 +132,10 @@ export {
 
 // options
 export {
+  formatOptionFlag,
   getOptionDisplayName,
   getOptionKeys,
+  getOptionNegations,
   getOptionTypeFromValue,
   normalizeOptionValue,
   option,
@@ -75,10 +145,14 @@ export {
   type OptionAlias,
   type OptionArgumentType,
   type OptionBaseType,
+  type OptionCondition,
   type OptionConfig,
   type OptionConfigPrimitiveType,
   type OptionConfigType,
   type OptionCustomType,
+  type OptionGroupConfig,
+  type OptionGroupConstraint,
+  type OptionGroupsConfig,
   type OptionKey,
   type OptionPrimitiveType,
   type OptionPrimitiveTypeMap,
@@ -86,6 +160,33 @@ export {
   type OptionType,
   type OptionValues,
 } from 'src/core/options/options';
+export {
+  CONFIG_FILE_COMMANDS_KEY,
+  ConfigFileError,
+  findConfigFile,
+  getConfigFileNames,
+  getConfigOptionValues,
+  loadConfigFile,
+  type ConfigFile,
+  type ConfigFileOptions,
+} from 'src/core/options/config-file';
+export {
+  getEnvOptionValues,
+  getOptionEnvName,
+  type EnvOptionValuesOptions,
+} from 'src/core/options/option-env';
+export {
+  formatOptionSource,
+  getCliOptionSource,
+  type OptionSource,
+  type OptionSources,
+} from 'src/core/options/option-source';
+export {
+  getOptionTypeDefinition,
+  registerOptionType,
+  unregisterOptionType,
+  type OptionTypeDefinition,
+} from 'src/core/options/option-types';
 export {
   optionPrompt,
   type OptionPromptParams,
@@ -105,13 +206,30 @@ export {
 } from 'src/core/options/validate-option-config';
 export {
   OptionConflictsError,
+  OptionGroupConflictsError,
+  OptionGroupIncompleteError,
+  OptionGroupRequiredError,
   OptionRequiredError,
   OptionRequiresError,
   OptionsError,
+  UnknownOptionError,
+  coerceOptionValue,
+  getOptionRequiredReason,
+  normalizeSourceOptionValue,
   validateOptionType,
   validateOptions,
+  type OptionRequiredErrorOptions,
   type ValidateOptionsParams,
 } from 'src/core/options/validate-options';
+export {
+  ParamError,
+  coerceParam,
+  coerceValue,
+  getParamTypeHint,
+  type ParamConfig,
+  type ParamType,
+  type ParamsConfig,
+} from 'src/core/params';
 
 // plugins
 export {
@@ -124,9 +242,11 @@ export {
 export type {
   plugin,
   Plugin,
+  PluginCommands,
   PluginError,
   PluginInfo,
 } from 'src/core/plugin';
+export { createPluginCommandSource } from 'src/core/plugin';
 export {
   help,
   type HelpPluginOptions,
@@ -152,8 +272,14 @@ export {
 export {
   formatFileName,
   parseFileName,
+  parseGroupName,
   removeFileExtension,
 } from 'src/utils/filename';
+export {
+  editDistance,
+  findSimilar,
+  type FindSimilarOptions,
+} from 'src/utils/find-similar';
 export {
   isDirectory,
   isFile,
@@ -0,0 +1,68 @@
+import { Client } from 'src/core/client';
+import type { CommandTree } from 'src/core/command-tree';
+import { run } from 'src/core/run';
+import { logger } from 'src/plugins/logger';
+import { describe, expect, it, vi } from 'vitest';
+
+describe('plugin: logger', () => {
+  const commands: CommandTree = {
+    foo: { handler: () => {} },
+  };
+
+  async function getLogMessages(
+    command: string,
+    verbose: boolean | number | string,
+  ) {
+    const client = new Client();
+    const log = vi.spyOn(client, 'log').mockImplementation(() => {});
+    await run({
+      command,
+      commands,
+      client,
+      plugins: [logger({ prefix: '', verbose })],
+    });
+    return log.mock.calls.map(([message]) => String(message));
+  }
+
+  it('logs execution steps', async () => {
+    const messages = await getLogMessages('foo', false);
+
+    expect(messages).toContainEqual(
+      expect.stringContaining('Starting execution'),
+    );
+    expect(messages).not.toContainEqual(
+      expect.stringContaining('Resolving commands'),
+    );
+  });
+
+  it('logs more at higher verbosity levels', async () => {
+    const levelOne = await getLogMessages('foo', 1);
+    expect(levelOne).toContainEqual(
+      expect.stringContaining('Resolving commands'),
+    );
+    expect(levelOne).not.toContainEqual(
+      expect.stringContaining('Options parsed'),
+    );
+
+    const levelTwo = await getLogMessages('foo', 2);
+    expect(levelTwo).toContainEqual(expect.stringContaining('Options parsed'));
+  });
+
+  it('reads the verbosity level from a count option', async () => {
+    const levelZero = await getLogMessages('foo', 'v');
+    expect(levelZero).not.toContainEqual(
+      expect.stringContaining('Resolving commands'),
+    );
+
+    const levelOne = await getLogMessages('foo -v', 'v');
+    expect(levelOne).toContainEqual(
+      expect.stringContaining('Resolving commands'),
+    );
+    expect(levelOne).not.toContainEqual(
+      expect.stringContaining('Options parsed'),
+    );
+
+    const levelTwo = await getLogMessages('foo -vv', 'v');
+    expect(levelTwo).toContainEqual(expect.stringContaining('Options parsed'));
+  });
+});
@@ -2,9 +2,13 @@ import { appendFileSync, mkdirSync } from 'node:fs';
 import { dirname, relative } from 'node:path';
 import { type InspectOptions, inspect } from 'node:util';
 import type { Client } from 'src/core/client';
+import type { Context } from 'src/core/context';
 import { CliError } from 'src/core/errors';
 import type { HookPayload } from 'src/core/hooks';
+import { formatOptionSource } from 'src/core/options/option-source';
+import { parseCommand } from 'src/core/parse';
 import { type Plugin, PluginError, plugin } from 'src/core/plugin';
+import type { State } from 'src/core/state';
 
 export interface LoggerMeta {
   /**
@@ -39,11 +43,18 @@ interface LoggerOptions {
   enabled?: boolean;
 
   /**
-   * Whether to log verbose information. If `true`, additional information will
-   * be logged, such as command resolution details and error handling.
+   * Whether to log verbose information, or a verbosity level. At level 1 (or
+   * `true`), additional information will be logged, such as command resolution
+   * details and error handling. At level 2, parsed options and their sources
+   * will also be logged.
+   *
+   * Can also be the name of a `count` option to read the level from, e.g.,
+   * `'v'` to set the level with `-v` or `-vv`. The option will be added if it
+   * doesn't exist.
+   *
    * @default false
    */
-  verbose?: boolean;
+  verbose?: boolean | number | string;
 }
 
 // Global logger state.
@@ -118,6 +129,17 @@ export const toggleLogger = () => {
  *
  * ```
  *
+ * ### Set the verbosity with a count option
+ *
+ * ```ts
+ * import { run, logger } from '@gud/cli';
+ *
+ * // `-v` logs command resolution and errors, `-vv` also logs parsed options.
+ * run({
+ *   plugins: [logger({ verbose: 'v' })],
+ * });
+ * ```
+ *
  * ### Enable/Disable/Toggle the logger in a command
  *
  * ```ts
@@ -211,15 +233,39 @@ export function logger({
     log(state.client, 'Execution completed', {
       finalResult: result,
       commandsExecuted: state.commandQueue.length,
+      optionSources: getOptionSourceNames(state),
     });
   }
 
+  // The verbosity levels of contexts when set by an option, read from the
+  // command string once and replaced with the parsed value after parsing.
+  const verbosityLevels = new WeakMap<Context, number>();
+
+  // Get the verbosity level, reading it from the command string if it's set by
+  // an option and the context hasn't parsed its options yet, e.g., during
+  // resolution. Only the verbosity option is parsed, so other options are left
+  // for the context to parse and validate.
+  function getVerbosity(context: Context): number {
+    if (typeof verbose !== 'string') return Number(verbose);
+
+    let level = verbosityLevels.get(context);
+    if (level === undefined) {
+      const { options } = parseCommand(context.commandString, {
+        [verbose]: context.options[verbose] || { type: 'count' },
+      });
+      level = Number(options[verbose] ?? 0);
+      verbosityLevels.set(context, level);
+    }
+    return level;
+  }
+
   // Verbose logging hook functions.
   function beforeResolve({
     context,
     commandString,
     commandsDir,
   }: HookPayload<'beforeResolve'>) {
+    if (getVerbosity(context) < 1) return;
     log(context.client, 'Resolving commands', {
       commandString,
       commandsDir: relative(process.cwd(), commandsDir),
@@ -229,6 +275,7 @@ export function logger({
     context,
     resolvedCommands,
   }: HookPayload<'afterResolve'>) {
+    if (getVerbosity(context) < 1) return;
     log(
       context.client,
       'Commands resolved',
@@ -238,7 +285,25 @@ export function logger({
       })),
     );
   }
+  function afterParse({ context }: HookPayload<'afterParse'>) {
+    if (typeof verbose === 'string') {
+      verbosityLevels.set(context, Number(context.optionValues[verbose] ?? 0));
+    }
+    if (getVerbosity(context) < 2) return;
+    const options: Record<string, unknown> = {};
+    for (const [key, config] of Object.entries(context.options)) {
+      const value = context.optionValues[key];
+      if (value === undefined) continue;
+      const source = context.optionSources[key];
+      options[key] = {
+        value: config.type === 'secret' ? '*****' : value,
+        source: source && formatOptionSource(source),
+      };
+    }
+    log(context.client, 'Options parsed', options);
+  }
   function beforeError({ context, error }: HookPayload<'beforeError'>) {
+    if (getVerbosity(context) < 1) return;
     const { name, message } =
       error instanceof Error
         ? error
@@ -249,6 +314,7 @@ export function logger({
     });
   }
   function beforeExit({ code, context, message }: HookPayload<'beforeExit'>) {
+    if (getVerbosity(context) < 1) return;
     log(context.client, 'Exiting', { code, message });
   }
 
@@ -268,13 +334,23 @@ export function logger({
         }
       },
     },
-    init: async ({ hooks, plugins }) => {
+    init: async ({ hooks, plugins, options, setOptions }) => {
       if (plugins.logger?.isReady) {
         throw new PluginError(
           'Logger plugin is already registered. Please remove the duplicate registration.',
         );
       }
 
+      // Add the count option that sets the verbosity level if needed.
+      if (typeof verbose === 'string' && !options[verbose]) {
+        setOptions({
+          [verbose]: {
+            type: 'count',
+            description: 'Increases the verbosity of the logs.',
+          },
+        });
+      }
+
       _enabled = enabled;
 
       _enableLogger = () => {
@@ -285,6 +361,7 @@ export function logger({
         if (verbose) {
           hooks.on('beforeResolve', beforeResolve);
           hooks.on('afterResolve', afterResolve);
+          hooks.on('afterParse', afterParse);
           hooks.on('beforeError', beforeError);
           hooks.on('beforeExit', beforeExit);
         }
@@ -298,6 +375,7 @@ export function logger({
         if (verbose) {
           hooks.off('beforeResolve', beforeResolve);
           hooks.off('afterResolve', afterResolve);
+          hooks.off('afterParse', afterParse);
           hooks.off('beforeError', beforeError);
           hooks.off('beforeExit', beforeExit);
         }
@@ -328,6 +406,17 @@ function logToFile(logFile: string, message: string, ...data: any[]) {
   appendFileSync(logFile, `${message}: ${formattedData}\n`);
 }
 
+// Get the formatted sources of the option values that have been set, e.g.,
+// `{ region: 'config file ./mycli.config.json' }`.
+function getOptionSourceNames(state: State) {
+  const sources: Record<string, string> = {};
+  for (const key in state.context.options) {
+    const source = state.options.source(key);
+    if (source) sources[key] = formatOptionSource(source);
+  }
+  return sources;
+}
+
 function formatData(data: any, overrides?: InspectOptions) {
   return inspect(data, {
     compact: false,
@@ -1,6 +1,7 @@
 import {
   formatFileName,
   parseFileName,
+  parseGroupName,
   removeFileExtension,
 } from 'src/utils/filename';
 import { describe, expect, it } from 'vitest';
@@ -34,6 +35,7 @@ describe('filename', () => {
         spreadOperator: undefined,
         paramName: 'param',
         extension: undefined,
+        optional: false,
       });
 
       // with extension
@@ -41,6 +43,7 @@ describe('filename', () => {
         spreadOperator: undefined,
         paramName: 'param',
         extension: '.ts',
+        optional: false,
       });
 
       // capital letters
@@ -48,6 +51,7 @@ describe('filename', () => {
         spreadOperator: undefined,
         paramName: 'PARAM',
         extension: '.ts',
+        optional: false,
       });
 
       // with underscores
@@ -55,6 +59,7 @@ describe('filename', () => {
         spreadOperator: undefined,
         paramName: '_p_r_m',
         extension: '.ts',
+        optional: false,
       });
 
       // with hyphens (not as first character)
@@ -62,6 +67,7 @@ describe('filename', () => {
         spreadOperator: undefined,
         paramName: 'p-r-m',
         extension: '.ts',
+        optional: false,
       });
 
       // with numbers (not as first character)
@@ -69,6 +75,7 @@ describe('filename', () => {
         spreadOperator: undefined,
         paramName: 'param123',
         extension: '.ts',
+        optional: false,
       });
     });
 
@@ -77,12 +84,30 @@ describe('filename', () => {
         spreadOperator: '...',
         paramName: 'param',
         extension: undefined,
+        optional: false,
       });
 
       expect(parseFileName('[...param].ts')).toEqual({
         spreadOperator: '...',
         paramName: 'param',
         extension: '.ts',
+        optional: false,
+      });
+    });
+
+    it('parses optional param file names', () => {
+      expect(parseFileName('[[param]]')).toEqual({
+        spreadOperator: undefined,
+        paramName: 'param',
+        extension: undefined,
+        optional: true,
+      });
+
+      expect(parseFileName('[[...param]].ts')).toEqual({
+        spreadOperator: '...',
+        paramName: 'param',
+        extension: '.ts',
+        optional: true,
       });
     });
 
@@ -91,6 +116,7 @@ describe('filename', () => {
         spreadOperator: undefined,
         paramName: undefined,
         extension: undefined,
+        optional: false,
       };
 
       // plain string
@@ -119,6 +145,11 @@ describe('filename', () => {
       // missing opening or closing bracket
       expect(parseFileName('param].ts')).toEqual(expected);
       expect(parseFileName('[param.ts')).toEqual(expected);
+
+      // unbalanced optional brackets
+      expect(parseFileName('[[param].ts')).toEqual(expected);
+      expect(parseFileName('[param]].ts')).toEqual(expected);
+      expect(parseFileName('[[[param]]].ts')).toEqual(expected);
     });
   });
 
@@ -147,4 +178,18 @@ describe('filename', () => {
       );
     });
   });
+
+  describe('parseGroupName', () => {
+    it('parses route group directory names', () => {
+      expect(parseGroupName('(admin)')).toBe('admin');
+      expect(parseGroupName('(admin-tools)')).toBe('admin-tools');
+    });
+
+    it('returns undefined for non-group names', () => {
+      expect(parseGroupName('admin')).toBeUndefined();
+      expect(parseGroupName('(admin')).toBeUndefined();
+      expect(parseGroupName('()')).toBeUndefined();
+      expect(parseGroupName('(admin).ts')).toBeUndefined();
+    });
+  });
 });
@@ -19,8 +19,11 @@ export function formatFileName(fileName: string, extension = '.js'): string {
   return `${removeFileExtension(fileName)}${extension}`;
 }
 
-// https://regex101.com/r/H6PKtJ/5
-const PARAM_FILE_NAME_REGEX = /^\[(\.{3})?([a-zA-Z_][\w-]*)\](\.\w+)?$/;
+// Matches `[param]`, `[...param]`, `[[param]]`, and `[[...param]]` with an
+// optional file extension. Opening and closing brackets are compared after
+// matching to ensure they're balanced.
+const PARAM_FILE_NAME_REGEX =
+  /^(\[{1,2})(\.{3})?([a-zA-Z_][\w-]*)(\]{1,2})(\.\w+)?$/;
 
 /**
  * Parses a file name to determine if it's a parameterized command file.
@@ -29,11 +32,16 @@ const PARAM_FILE_NAME_REGEX = /^\[(\.{3})?([a-zA-Z_][\w-]*)\](\.\w+)?$/;
  *   - `[param]` - A single parameter with no file extension
  *   - `[param].ts` - A single parameter
  *   - `[...param].ts` - A spread operator parameter
+ *   - `[[param]].ts` - An optional single parameter
+ *   - `[[...param]].ts` - An optional spread operator parameter
+ *
+ * Optional parameters also match when there are no tokens left in the command
+ * string.
  *
  * @param fileName - The file name to parse.
  *
- * @returns Object containing the spread operator, parameter name, and file
- * extension, if any.
+ * @returns Object containing the spread operator, parameter name, file
+ * extension, if any, and whether the parameter is optional.
  *
  * @example
  * // A single parameter with no file extension
@@ -42,6 +50,7 @@ const PARAM_FILE_NAME_REGEX = /^\[(\.{3})?([a-zA-Z_][\w-]*)\](\.\w+)?$/;
  * //   spreadOperator: undefined,
  * //   paramName: 'foo',
  * //   extension: undefined,
+ * //   optional: false,
  * // }
  *
  * // A single parameter
@@ -50,6 +59,7 @@ const PARAM_FILE_NAME_REGEX = /^\[(\.{3})?([a-zA-Z_][\w-]*)\](\.\w+)?$/;
  * //   spreadOperator: undefined,
  * //   paramName: 'foo',
  * //   extension: '.ts',
+ * //   optional: false,
  * // }
  *
  * // A spread operator parameter
@@ -58,6 +68,16 @@ const PARAM_FILE_NAME_REGEX = /^\[(\.{3})?([a-zA-Z_][\w-]*)\](\.\w+)?$/;
  * //   spreadOperator: '...',
  * //   paramName: 'foo',
  * //   extension: '.ts',
+ * //   optional: false,
+ * // }
+ *
+ * // An optional spread operator parameter
+ * parseFileName('[[...foo]].ts');
+ * // => {
+ * //   spreadOperator: '...',
+ * //   paramName: 'foo',
+ * //   extension: '.ts',
+ * //   optional: true,
  * // }
  *
  * // Not a parameterized command file
@@ -66,6 +86,7 @@ const PARAM_FILE_NAME_REGEX = /^\[(\.{3})?([a-zA-Z_][\w-]*)\](\.\w+)?$/;
  * //   spreadOperator: undefined,
  * //   paramName: undefined,
  * //   extension: undefined,
+ * //   optional: false,
  * // }
  *
  * @group Utils
@@ -74,13 +95,46 @@ export function parseFileName(fileName: string): {
   spreadOperator: string | undefined;
   paramName: string | undefined;
   extension: string | undefined;
+  optional: boolean;
 } {
-  const [_, spreadOperator, paramName, extension] =
+  const [_, openBrackets, spreadOperator, paramName, closeBrackets, extension] =
     fileName.match(PARAM_FILE_NAME_REGEX) || [];
 
+  // Unbalanced brackets, e.g., `[[param]`
+  if (openBrackets?.length !== closeBrackets?.length) {
+    return {
+      spreadOperator: undefined,
+      paramName: undefined,
+      extension: undefined,
+      optional: false,
+    };
+  }
+
   return {
     spreadOperator,
     paramName,
     extension,
+    optional: openBrackets?.length === 2,
   };
 }
+
+const GROUP_NAME_REGEX = /^\(([\w-]+)\)$/;
+
+/**
+ * Parses a directory name to determine if it's a route group. Route groups are
+ * directories wrapped in parentheses, e.g., `(admin)`, which organize commands
+ * without consuming a token from the command string.
+ *
+ * @param dirName - The directory name to parse.
+ * @returns The name of the group or `undefined` if the directory isn't a route
+ * group.
+ *
+ * @example
+ * parseGroupName('(admin)'); // 'admin'
+ * parseGroupName('admin'); // undefined
+ *
+ * @group Utils
+ */
+export function parseGroupName(dirName: string): string | undefined {
+  return dirName.match(GROUP_NAME_REGEX)?.[1];
+}
@@ -0,0 +1,22 @@
+import { editDistance, findSimilar } from 'src/utils/find-similar';
+import { describe, expect, it } from 'vitest';
+
+describe('find-similar', () => {
+  it('counts insertions, deletions, substitutions, and transpositions', () => {
+    expect(editDistance('deploy', 'deploy')).toBe(0);
+    expect(editDistance('eploy', 'deploy')).toBe(1);
+    expect(editDistance('deployy', 'deploy')).toBe(1);
+    expect(editDistance('depoly', 'deploy')).toBe(1);
+    expect(editDistance('dpeloy', 'deploy')).toBe(1);
+    expect(editDistance('', 'foo')).toBe(3);
+  });
+
+  it('returns similar choices ordered by distance', () => {
+    const choices = ['destroy', 'deploy', 'list', 'deploys'];
+    expect(findSimilar('eploy', choices)).toEqual(['deploy', 'deploys']);
+    expect(findSimilar('eploy', choices, { maxResults: 1 })).toEqual([
+      'deploy',
+    ]);
+    expect(findSimilar('eploy', choices, { threshold: 0 })).toEqual([]);
+  });
+});
@@ -2,9 +2,9 @@
  * Options for {@link findSimilar}.
  * @group Utils
  */
-interface FindSimilarOptions {
+export interface FindSimilarOptions {
   /**
-   * The maximum number of differences between the input and the choices.
+   * The maximum number of edits between the input and the choices.
    * @default 2
    */
   threshold?: number;
@@ -18,7 +18,7 @@ interface FindSimilarOptions {
 
 /**
  * Returns strings from `choices` that are similar to `input` using the
- * Levenshtein distance.
+ * Damerau-Levenshtein distance, ordered from most to least similar.
  * @param input - The input string to compare against.
  * @param choices - The choices to find similar strings from.
  * @param options - Additional options.
@@ -26,35 +26,61 @@ interface FindSimilarOptions {
  * to `input`.
  * @group Utils
  */
-// TODO: Need to rethink this. If a word has all the same characters, but
-// shifted by one, e.g., `eploy` and `deploy`, it will get a very low score when
-// in reality it should be considered very similar.
 export function findSimilar(
   input: string,
   choices: string[],
   { threshold = 2, maxResults = 4 }: FindSimilarOptions = {},
-) {
-  const distances = Array(choices.length).fill(0);
+): string[] {
+  return Array.from(new Set(choices))
+    .map((choice) => ({ choice, distance: editDistance(input, choice) }))
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, maxResults)
+    .map(({ choice }) => choice);
+}
 
-  for (const [charIndex, char] of Object.entries(input)) {
-    for (const [choiceIndex, choice] of choices.entries()) {
-      if (choice[charIndex as any] !== char) {
-        distances[choiceIndex] += 1;
-      }
-    }
+/**
+ * Returns the number of insertions, deletions, substitutions, and
+ * transpositions of adjacent characters needed to turn `a` into `b` using the
+ * optimal string alignment variant of the Damerau-Levenshtein distance.
+ *
+ * @example
+ * ```ts
+ * editDistance('eploy', 'deploy'); // 1 (insertion)
+ * editDistance('dpeloy', 'deploy'); // 1 (transposition)
+ * ```
+ *
+ * @group Utils
+ */
+export function editDistance(a: string, b: string): number {
+  // distances[i][j] is the distance between the first i characters of a and
+  // the first j characters of b.
+  const distances: number[][] = [];
+
+  for (let i = 0; i <= a.length; i++) {
+    distances[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    distances[0]![j] = j;
   }
-  distances.sort();
 
-  const similar: string[] = [];
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
 
-  for (const [i, score] of distances.entries()) {
-    if (score <= threshold) {
-      similar.push(choices[i]!);
-      if (similar.length >= maxResults) {
-        break;
+      let distance = Math.min(
+        distances[i - 1]![j]! + 1, // deletion
+        distances[i]![j - 1]! + 1, // insertion
+        distances[i - 1]![j - 1]! + cost, // substitution
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, distances[i - 2]![j - 2]! + 1); // transposition
       }
+
+      distances[i]![j] = distance;
     }
   }
 
-  return similar;
+  return distances[a.length]![b.length]!;
 }
@@ -47,7 +47,7 @@ vi.mock('node:fs', async (importOriginal) => {
       } catch {
         // If the path is a command directory, return the command names
         if (mockCommandDirs.has(path.toString())) {
-          return mockCommandDirs.get(path.toString());
+          return [...mockCommandDirs.get(path.toString())!];
         }
       }
     }),